@@ -17,13 +17,31 @@
  * 2. Per-task files: Rejected - too granular for current scale (only reindex)
  *
  * Future Extensibility: Add new admin tasks by adding functions here:
- * - exportSessionData()
- * - importArticles()
  * - clearCache()
  * - databaseMaintenance()
  */
 
-import { apiClient } from './client';
+import {
+	apiClient,
+	isAbortError,
+	isUnsupportedError,
+	UNSUPPORTED_STATUSES,
+	type RequestConfig
+} from './client';
+import { getArticleContent, getArticles, recreateArticle } from './articles';
+import { getChatHistory, getChatThreads, type ChatThread, type FeedbackReason } from './chat';
+import type { ArticleExport } from '$lib/utils/export';
+import type {
+	AdminReindexResponse,
+	ArticleResponse,
+	ChatMessageResponse,
+	CreateSessionRequest,
+	SessionResponse,
+	ProviderConfigResponse,
+	TaskStatusResponse,
+	UpdateEmbeddingProviderResponse as UpdateEmbeddingProviderResponseSchema,
+	UpdateLlmProviderResponse as UpdateLlmProviderResponseSchema
+} from './types';
 
 /**
  * Options for starting a reindex operation
@@ -36,33 +54,17 @@ export interface ReindexOptions {
 /**
  * Result from starting a reindex task
  *
- * Mirrors AdminReindexResponse from backend:
- * article-mind-service/schemas/admin.py
+ * Alias of AdminReindexResponse from generated.ts; progress_url is the
+ * URL for SSE progress streaming.
  */
-export interface ReindexResult {
-	task_id: string;
-	total_sessions: number;
-	total_articles: number;
-	progress_url: string; // URL for SSE progress streaming
-}
+export type ReindexResult = AdminReindexResponse;
 
 /**
  * Current status of a background task
  *
- * Mirrors TaskStatusResponse from backend:
- * article-mind-service/schemas/admin.py
+ * Alias of TaskStatusResponse from generated.ts
  */
-export interface TaskStatus {
-	task_id: string;
-	task_type: string;
-	status: string;
-	total_items: number;
-	processed_items: number;
-	failed_items: number;
-	progress_percent: number;
-	message: string | null;
-	errors: Array<{ item_id: string; error: string }>;
-}
+export type TaskStatus = TaskStatusResponse;
 
 /**
  * Start a reindex operation for all or selected sessions
@@ -89,9 +91,11 @@ export interface TaskStatus {
  * });
  */
 export async function startReindex(options: ReindexOptions = {}): Promise<ReindexResult> {
-	return apiClient.post('/api/v1/admin/reindex', {
-		session_ids: options.sessionIds ?? null,
-		force: options.force ?? false
+	return apiClient.request('/api/v1/admin/reindex', 'post', {
+		body: {
+			session_ids: options.sessionIds ?? null,
+			force: options.force ?? false
+		}
 	});
 }
 
@@ -101,7 +105,7 @@ export async function startReindex(options: ReindexOptions = {}): Promise<Reinde
  * Use Case: Query task status after SSE connection is closed or for
  * task history display. For real-time updates, use subscribeToProgress().
  *
- * Error Handling:
+ * Error Handling: throws ApiRequestError; check `isNotFound` / `isGone`
  * - 404: Task ID not found (expired or invalid)
  * - 410: Task expired from in-memory registry (implement persistence to fix)
  *
@@ -117,7 +121,9 @@ export async function startReindex(options: ReindexOptions = {}): Promise<Reinde
  * }
  */
 export async function getReindexStatus(taskId: string): Promise<TaskStatus> {
-	return apiClient.get(`/api/v1/admin/reindex/${taskId}`);
+	return apiClient.request('/api/v1/admin/reindex/{task_id}', 'get', {
+		params: { path: { task_id: taskId } }
+	});
 }
 
 /**
@@ -127,7 +133,7 @@ export async function getReindexStatus(taskId: string): Promise<TaskStatus> {
  * between articles and stops gracefully. Current article finishes processing
  * before task stops.
  *
- * Error Handling:
+ * Error Handling: throws ApiRequestError; check `isNotFound` / `isConflict`
  * - 404: Task ID not found
  * - 409: Task already completed or not running
  *
@@ -141,43 +147,31 @@ export async function getReindexStatus(taskId: string): Promise<TaskStatus> {
  * // Wait for SSE event with status: 'cancelled'
  */
 export async function cancelReindex(taskId: string): Promise<void> {
-	await apiClient.post(`/api/v1/admin/reindex/${taskId}/cancel`, {});
+	await apiClient.request('/api/v1/admin/reindex/{task_id}/cancel', 'post', {
+		params: { path: { task_id: taskId } }
+	});
 }
 
 /**
  * Provider configuration response
  *
- * Mirrors ProviderConfigResponse from backend:
- * article-mind-service/schemas/settings.py
+ * Alias of ProviderConfigResponse from generated.ts
  */
-export interface ProviderConfig {
-	embedding_provider: 'openai' | 'ollama';
-	embedding_provider_available: string[];
-	llm_provider: 'openai' | 'anthropic';
-	llm_provider_available: string[];
-}
+export type ProviderConfig = ProviderConfigResponse;
 
 /**
  * Response when updating embedding provider
  *
- * Mirrors UpdateEmbeddingProviderResponse from backend:
- * article-mind-service/schemas/settings.py
+ * Alias of UpdateEmbeddingProviderResponse from generated.ts
  */
-export interface UpdateEmbeddingProviderResponse {
-	provider: string;
-	reindex_triggered: boolean;
-	warning?: string | null;
-}
+export type UpdateEmbeddingProviderResponse = UpdateEmbeddingProviderResponseSchema;
 
 /**
  * Response when updating LLM provider
  *
- * Mirrors UpdateLlmProviderResponse from backend:
- * article-mind-service/schemas/settings.py
+ * Alias of UpdateLlmProviderResponse from generated.ts
  */
-export interface UpdateLlmProviderResponse {
-	provider: string;
-}
+export type UpdateLlmProviderResponse = UpdateLlmProviderResponseSchema;
 
 /**
  * Get current provider configuration
@@ -197,7 +191,7 @@ export interface UpdateLlmProviderResponse {
  * console.log(`Available embedding: ${config.embedding_provider_available.join(', ')}`);
  */
 export async function getProviderConfig(): Promise<ProviderConfig> {
-	return apiClient.get('/api/v1/settings/providers');
+	return apiClient.request('/api/v1/settings/providers', 'get');
 }
 
 /**
@@ -236,9 +230,11 @@ export async function updateEmbeddingProvider(
 	provider: 'openai' | 'ollama',
 	confirmReindex: boolean
 ): Promise<UpdateEmbeddingProviderResponse> {
-	return apiClient.patch('/api/v1/settings/providers/embedding', {
-		provider,
-		confirm_reindex: confirmReindex
+	return apiClient.request('/api/v1/settings/providers/embedding', 'patch', {
+		body: {
+			provider,
+			confirm_reindex: confirmReindex
+		}
 	});
 }
 
@@ -262,7 +258,214 @@ export async function updateEmbeddingProvider(
 export async function updateLlmProvider(
 	provider: 'openai' | 'anthropic'
 ): Promise<UpdateLlmProviderResponse> {
-	return apiClient.patch('/api/v1/settings/providers/llm', {
-		provider
+	return apiClient.request('/api/v1/settings/providers/llm', 'patch', {
+		body: { provider }
 	});
 }
+
+/**
+ * Everything exported for one session
+ */
+export interface SessionExportEntry {
+	session: SessionResponse;
+	/** Articles with their extracted text (null if extraction didn't complete) */
+	articles: ArticleExport[];
+	/** Chat history of the main conversation, oldest first */
+	messages: ChatMessageResponse[];
+	/** Named conversations; missing in exports from before threads */
+	threads?: ThreadExport[];
+}
+
+export interface ThreadExport {
+	thread: ChatThread;
+	/** Chat history, oldest first */
+	messages: ChatMessageResponse[];
+}
+
+export interface ExportProgress {
+	/** Articles whose content has been fetched */
+	processed: number;
+	total: number;
+}
+
+/**
+ * Collect a session's details, articles, extracted content and chat history,
+ * including every thread
+ *
+ * Content is fetched one article at a time to keep load on the service low;
+ * `onProgress` reports each article. Format the result with the helpers in
+ * utils/export.ts.
+ *
+ * @param sessionId - Session to export
+ * @param onProgress - Called after each article's content is fetched
+ * @param config - Optional abort signal and timeout
+ */
+export async function exportSessionData(
+	sessionId: number,
+	onProgress?: (progress: ExportProgress) => void,
+	config?: RequestConfig
+): Promise<SessionExportEntry> {
+	const [session, articleList, history, threadList] = await Promise.all([
+		apiClient.request('/api/v1/sessions/{session_id}', 'get', {
+			params: { path: { session_id: sessionId } },
+			...config
+		}),
+		getArticles(sessionId, config),
+		getChatHistory(sessionId, config),
+		getChatThreads(sessionId, config)
+	]);
+
+	const threads: ThreadExport[] = [];
+	for (const thread of threadList ?? []) {
+		const threadHistory = await getChatHistory(sessionId, config, { threadId: thread.id });
+		threads.push({ thread, messages: threadHistory.messages ?? [] });
+	}
+
+	const articles: ArticleExport[] = [];
+	for (const article of articleList.items) {
+		let content: string | null = null;
+		if (article.extraction_status === 'completed' && article.has_content) {
+			content = (await getArticleContent(sessionId, article.id, config)).content_text;
+		}
+		articles.push({ article, content });
+		onProgress?.({ processed: articles.length, total: articleList.items.length });
+	}
+
+	return { session, articles, messages: history.messages ?? [], threads };
+}
+
+export interface ImportProgress {
+	/** Articles attempted so far */
+	processed: number;
+	total: number;
+}
+
+export interface ImportFailure {
+	/** The article as it was exported */
+	article: ArticleResponse;
+	message: string;
+}
+
+export interface ImportResult {
+	session: SessionResponse;
+	imported: number;
+	failures: ImportFailure[];
+}
+
+/**
+ * Recreate an exported session on this server
+ *
+ * Creates a new session (as a draft) and adds each article through the
+ * article endpoints, one at a time: URL articles are re-added by URL, and
+ * file articles are uploaded as their extracted text. Articles that can't be
+ * recreated are reported in `failures` rather than stopping the
+ * import. Chat history isn't imported; the service has no endpoint to write
+ * past messages.
+ *
+ * Aborting cancels the article being added; the session and the articles
+ * added before it are kept.
+ *
+ * @param entry - Session from an export document (see readExportFile)
+ * @param name - Name for the new session, e.g. renamed to avoid a collision
+ * @param onProgress - Called after each article
+ * @param config - Optional abort signal
+ */
+export async function importSessionData(
+	entry: SessionExportEntry,
+	name: string,
+	onProgress?: (progress: ImportProgress) => void,
+	config?: RequestConfig
+): Promise<ImportResult> {
+	const request: CreateSessionRequest = {
+		name,
+		description: entry.session.description ?? null
+	};
+	const session = await apiClient.request('/api/v1/sessions', 'post', {
+		body: request,
+		...config
+	});
+
+	const failures: ImportFailure[] = [];
+	let processed = 0;
+	for (const { article, content } of entry.articles) {
+		config?.signal?.throwIfAborted();
+		try {
+			await recreateArticle(session.id, article, content, config);
+		} catch (error) {
+			if (isAbortError(error)) throw error;
+			failures.push({
+				article,
+				message: error instanceof Error ? error.message : 'Failed to import article'
+			});
+		}
+		processed++;
+		onProgress?.({ processed, total: entry.articles.length });
+	}
+
+	return { session, imported: processed - failures.length, failures };
+}
+
+/**
+ * Aggregated answer feedback for one group (a session, or a provider and model)
+ */
+export interface FeedbackSummary {
+	/** Answers with any feedback */
+	answers: number;
+	up: number;
+	down: number;
+	/** How often each reason was given */
+	reasons: Partial<Record<FeedbackReason, number>>;
+	/** Sources flagged as irrelevant */
+	irrelevant_sources: number;
+}
+
+export interface SessionFeedbackSummary extends FeedbackSummary {
+	session_id: number;
+	session_name: string;
+}
+
+export interface ProviderFeedbackSummary extends FeedbackSummary {
+	llm_provider: string;
+	llm_model?: string | null;
+}
+
+export interface FeedbackReport {
+	total: FeedbackSummary;
+	sessions: SessionFeedbackSummary[];
+	providers: ProviderFeedbackSummary[];
+}
+
+/**
+ * Get answer feedback aggregated by session and by LLM provider
+ *
+ * Use Case: Comparing answer quality before and after switching
+ * `llm_provider`; each provider/model pair is its own row.
+ *
+ * @param since - Only count feedback on answers from this date (ISO 8601)
+ * @returns The report, or null if the service doesn't collect feedback
+ *   (404/405)
+ */
+export async function getFeedbackReport(
+	since?: string,
+	config?: RequestConfig
+): Promise<FeedbackReport | null> {
+	const query = since ? `?${new URLSearchParams({ since })}` : '';
+	try {
+		return await apiClient.get<FeedbackReport>(`/api/v1/admin/feedback/report${query}`, {
+			...config,
+			quietStatuses: UNSUPPORTED_STATUSES
+		});
+	} catch (error) {
+		if (isUnsupportedError(error)) return null;
+		throw error;
+	}
+}
+
+/**
+ * Share of rated answers that were rated up, from 0 to 100, or null if none
+ * were rated
+ */
+export function approvalRate(summary: FeedbackSummary): number | null {
+	const rated = summary.up + summary.down;
+	return rated > 0 ? Math.round((summary.up / rated) * 100) : null;
+}
@@ -2,7 +2,15 @@
  * Articles API client
  */
 
-import { apiClient } from './client';
+import {
+	apiClient,
+	API_BASE_URL,
+	ApiRequestError,
+	createApiRequestError,
+	isUnsupportedError,
+	UNSUPPORTED_STATUSES,
+	type RequestConfig
+} from './client';
 import type {
 	ArticleResponse,
 	ArticleListResponse,
@@ -10,21 +18,33 @@ import type {
 	AddUrlRequest,
 	UploadFileResponse
 } from './types';
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:13010';
+import { fileFromText } from '$lib/utils/files';
 
 /**
  * List articles in a session
  */
-export async function getArticles(sessionId: number): Promise<ArticleListResponse> {
-	return apiClient.get<ArticleListResponse>(`/api/v1/sessions/${sessionId}/articles`);
+export async function getArticles(
+	sessionId: number,
+	config?: RequestConfig
+): Promise<ArticleListResponse> {
+	return apiClient.request('/api/v1/sessions/{session_id}/articles', 'get', {
+		params: { path: { session_id: sessionId } },
+		...config
+	});
 }
 
 /**
  * Get a specific article
  */
-export async function getArticle(sessionId: number, articleId: number): Promise<ArticleResponse> {
-	return apiClient.get<ArticleResponse>(`/api/v1/sessions/${sessionId}/articles/${articleId}`);
+export async function getArticle(
+	sessionId: number,
+	articleId: number,
+	config?: RequestConfig
+): Promise<ArticleResponse> {
+	return apiClient.request('/api/v1/sessions/{session_id}/articles/{article_id}', 'get', {
+		params: { path: { session_id: sessionId, article_id: articleId } },
+		...config
+	});
 }
 
 /**
@@ -32,39 +52,139 @@ export async function getArticle(sessionId: number, articleId: number): Promise<
  */
 export async function addUrlArticle(
 	sessionId: number,
-	data: AddUrlRequest
+	data: AddUrlRequest,
+	config?: RequestConfig
 ): Promise<ArticleResponse> {
-	return apiClient.post<ArticleResponse>(`/api/v1/sessions/${sessionId}/articles/url`, data);
+	return apiClient.request('/api/v1/sessions/{session_id}/articles/url', 'post', {
+		params: { path: { session_id: sessionId } },
+		body: data,
+		...config
+	});
+}
+
+/**
+ * Options for uploadArticleFile
+ */
+export interface UploadOptions {
+	/** Called as the request body is sent; `total` is the file size in bytes */
+	onProgress?: (loaded: number, total: number) => void;
+	/** Aborting cancels the upload and rejects with an AbortError */
+	signal?: AbortSignal;
 }
 
 /**
  * Upload article file
+ *
+ * Uses XMLHttpRequest rather than fetch because fetch has no upload
+ * progress events, and large PDFs can take a while to send.
  */
 export async function uploadArticleFile(
 	sessionId: number,
-	file: File
+	file: File,
+	options: UploadOptions = {}
 ): Promise<UploadFileResponse> {
+	const { onProgress, signal } = options;
+	const endpoint = `/api/v1/sessions/${sessionId}/articles/upload`;
 	const formData = new FormData();
 	formData.append('file', file);
 
-	const response = await fetch(`${API_BASE_URL}/api/v1/sessions/${sessionId}/articles/upload`, {
-		method: 'POST',
-		body: formData
+	signal?.throwIfAborted();
+
+	return new Promise((resolve, reject) => {
+		const xhr = new XMLHttpRequest();
+		const onAbort = () => xhr.abort();
+
+		xhr.upload.addEventListener('progress', (event) => {
+			if (event.lengthComputable) {
+				onProgress?.(event.loaded, event.total);
+			}
+		});
+
+		xhr.addEventListener('load', () => {
+			signal?.removeEventListener('abort', onAbort);
+			if (xhr.status >= 200 && xhr.status < 300) {
+				try {
+					resolve(JSON.parse(xhr.responseText) as UploadFileResponse);
+				} catch {
+					reject(new Error('Upload succeeded but the response could not be read'));
+				}
+			} else {
+				// A proxy in front of the service may reject oversized bodies with an
+				// HTML page, which leaves no detail to show
+				const statusText = xhr.status === 413 ? 'File too large' : xhr.statusText;
+				reject(createApiRequestError(xhr.status, endpoint, xhr.responseText, statusText));
+			}
+		});
+
+		xhr.addEventListener('error', () => {
+			signal?.removeEventListener('abort', onAbort);
+			reject(new TypeError('Upload failed: network error'));
+		});
+
+		xhr.addEventListener('abort', () => {
+			signal?.removeEventListener('abort', onAbort);
+			reject(new DOMException('Upload cancelled', 'AbortError'));
+		});
+
+		signal?.addEventListener('abort', onAbort, { once: true });
+		xhr.open('POST', `${API_BASE_URL}${endpoint}`);
+		xhr.send(formData);
+	});
+}
+
+/**
+ * Delete article (soft delete)
+ */
+export async function deleteArticle(
+	sessionId: number,
+	articleId: number,
+	config?: RequestConfig
+): Promise<void> {
+	return apiClient.request('/api/v1/sessions/{session_id}/articles/{article_id}', 'delete', {
+		params: { path: { session_id: sessionId, article_id: articleId } },
+		...config
 	});
+}
 
-	if (!response.ok) {
-		const error = await response.json().catch(() => ({ detail: 'Upload failed' }));
-		throw new Error(error.detail || 'Upload failed');
+/**
+ * List soft-deleted articles in a session
+ *
+ * @returns The trashed articles, or null if the service has no trash
+ *   endpoint (404/405)
+ */
+export async function getTrashedArticles(
+	sessionId: number,
+	config?: RequestConfig
+): Promise<ArticleListResponse | null> {
+	try {
+		return await apiClient.get<ArticleListResponse>(`/api/v1/sessions/${sessionId}/trash`, {
+			...config,
+			quietStatuses: UNSUPPORTED_STATUSES
+		});
+	} catch (error) {
+		if (isUnsupportedError(error)) return null;
+		throw error;
 	}
+}
 
-	return response.json();
+/**
+ * Restore a soft-deleted article
+ */
+export async function restoreArticle(
+	sessionId: number,
+	articleId: number
+): Promise<ArticleResponse> {
+	return apiClient.post<ArticleResponse>(
+		`/api/v1/sessions/${sessionId}/trash/${articleId}/restore`,
+		{}
+	);
 }
 
 /**
- * Delete article (soft delete)
+ * Permanently delete a soft-deleted article and its indexed chunks
  */
-export async function deleteArticle(sessionId: number, articleId: number): Promise<void> {
-	return apiClient.delete(`/api/v1/sessions/${sessionId}/articles/${articleId}`);
+export async function purgeArticle(sessionId: number, articleId: number): Promise<void> {
+	return apiClient.delete(`/api/v1/sessions/${sessionId}/trash/${articleId}`);
 }
 
 /**
@@ -72,9 +192,196 @@ export async function deleteArticle(sessionId: number, articleId: number): Promi
  */
 export async function getArticleContent(
 	sessionId: number,
-	articleId: number
+	articleId: number,
+	config?: RequestConfig
 ): Promise<ArticleContentResponse> {
-	return apiClient.get<ArticleContentResponse>(
-		`/api/v1/sessions/${sessionId}/articles/${articleId}/content`
+	return apiClient.request('/api/v1/sessions/{session_id}/articles/{article_id}/content', 'get', {
+		params: { path: { session_id: sessionId, article_id: articleId } },
+		...config
+	});
+}
+
+/**
+ * Title to show for an article, falling back to its file name or URL
+ */
+export function getArticleTitle(article: ArticleResponse): string {
+	return (
+		article.title || article.original_filename || article.original_url || `Article #${article.id}`
 	);
 }
+
+/**
+ * Why extraction failed, if the service reported it
+ *
+ * `extraction_error` isn't part of the OpenAPI contract yet, so it is read
+ * defensively and is null for services that don't send it.
+ */
+export function getExtractionError(article: ArticleResponse): string | null {
+	const reason = (article as { extraction_error?: unknown }).extraction_error;
+	return typeof reason === 'string' && reason.trim() ? reason.trim() : null;
+}
+
+/**
+ * Whether a retry failed because the service has no retry endpoint
+ *
+ * A 404 is ambiguous: it is also how the service reports an article that no
+ * longer exists, which must not be re-added. The article is looked up to
+ * tell the two apart.
+ */
+async function isRetryUnsupported(
+	sessionId: number,
+	articleId: number,
+	error: unknown
+): Promise<boolean> {
+	if (!(error instanceof ApiRequestError)) return false;
+	if (error.status === 405) return true;
+	if (!error.isNotFound) return false;
+
+	try {
+		await getArticle(sessionId, articleId, { quietStatuses: [404] });
+		return true;
+	} catch (lookupError) {
+		if (lookupError instanceof ApiRequestError && lookupError.isNotFound) return false;
+		throw lookupError;
+	}
+}
+
+/**
+ * Run extraction again for a failed article
+ *
+ * Fallback: Services without `POST .../articles/{id}/retry` get URL articles
+ * re-added and the failed copy deleted, which has the same effect apart from
+ * the new article ID. A file can't be retried that way, since the browser no
+ * longer has it, so the caller is asked to replace the source instead.
+ *
+ * @returns The article now being extracted; a new one if it was re-added
+ */
+export async function retryExtraction(
+	sessionId: number,
+	article: ArticleResponse
+): Promise<ArticleResponse> {
+	try {
+		return await apiClient.post<ArticleResponse>(
+			`/api/v1/sessions/${sessionId}/articles/${article.id}/retry`,
+			{},
+			{ quietStatuses: UNSUPPORTED_STATUSES }
+		);
+	} catch (error) {
+		if (!(await isRetryUnsupported(sessionId, article.id, error))) throw error;
+	}
+
+	if (article.type !== 'url' || !article.original_url) {
+		throw new Error('This file cannot be retried. Upload it again or paste its text instead.');
+	}
+
+	const readded = await addUrlArticle(sessionId, { url: article.original_url });
+	await deleteArticle(sessionId, article.id);
+	return readded;
+}
+
+/**
+ * Replace the source of a failed article with a new file
+ *
+ * The new file is uploaded as a new article and the failed one deleted
+ * only once the upload succeeded, so a failed replacement changes nothing.
+ * Pasted text can be passed in via fileFromText().
+ */
+export async function replaceArticleSource(
+	sessionId: number,
+	articleId: number,
+	file: File,
+	options: UploadOptions = {}
+): Promise<UploadFileResponse> {
+	const uploaded = await uploadArticleFile(sessionId, file, options);
+	await deleteArticle(sessionId, articleId);
+	return uploaded;
+}
+
+/**
+ * Add a copy of an article to a session
+ *
+ * URL articles are re-added by URL so they keep their type and source. For
+ * file articles the extracted text is uploaded as a text file, since the
+ * original file isn't available; a file without content can't be recreated.
+ *
+ * @param config - Optional abort signal, also used for the upload
+ */
+export async function recreateArticle(
+	sessionId: number,
+	article: ArticleResponse,
+	content: string | null,
+	config?: RequestConfig
+): Promise<void> {
+	if (article.type === 'url' && article.original_url) {
+		await addUrlArticle(sessionId, { url: article.original_url }, config);
+	} else if (content !== null) {
+		await uploadArticleText(sessionId, article, content, { signal: config?.signal });
+	} else {
+		throw new Error(`"${article.original_filename ?? article.id}" has no extracted content.`);
+	}
+}
+
+/**
+ * Upload an article's extracted text as a new text article
+ *
+ * Nothing is fetched again, so a dead or paywalled link keeps its text. The
+ * upload endpoint takes no metadata, so a URL article's source is kept as the
+ * first line of the text.
+ */
+async function uploadArticleText(
+	sessionId: number,
+	article: ArticleResponse,
+	content: string,
+	options: UploadOptions = {}
+): Promise<UploadFileResponse> {
+	const name =
+		article.title ||
+		article.original_filename?.replace(/\.[^.]+$/, '') ||
+		article.original_url ||
+		`Article ${article.id}`;
+	const text = article.original_url ? `Source: ${article.original_url}\n\n${content}` : content;
+	return uploadArticleFile(sessionId, fileFromText(text, name), options);
+}
+
+export type TransferMode = 'move' | 'copy';
+
+/**
+ * Move or copy an article to another session
+ *
+ * Uses `POST .../articles/{id}/move` or `.../copy` with
+ * `{target_session_id}` when the service has them (the server reuses the
+ * extracted content). Otherwise extracted text is uploaded to the target
+ * session, and only articles without it are recreated from their source
+ * (see recreateArticle). A move then deletes the original.
+ */
+export async function transferArticle(
+	sessionId: number,
+	article: ArticleResponse,
+	targetSessionId: number,
+	mode: TransferMode
+): Promise<void> {
+	try {
+		await apiClient.post<ArticleResponse>(
+			`/api/v1/sessions/${sessionId}/articles/${article.id}/${mode}`,
+			{ target_session_id: targetSessionId },
+			{ quietStatuses: UNSUPPORTED_STATUSES }
+		);
+		return;
+	} catch (error) {
+		if (!isUnsupportedError(error)) throw error;
+	}
+
+	const content =
+		article.extraction_status === 'completed' && article.has_content
+			? (await getArticleContent(sessionId, article.id)).content_text
+			: null;
+	if (content !== null) {
+		await uploadArticleText(targetSessionId, article, content);
+	} else {
+		await recreateArticle(targetSessionId, article, null);
+	}
+
+	if (mode === 'move') {
+		await deleteArticle(sessionId, article.id);
+	}
+}
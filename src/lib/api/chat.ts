@@ -1,28 +1,473 @@
 /**
  * Chat API client functions
+ *
+ * Threads: a session can hold several named conversations, each with its own
+ * history, so people asking unrelated questions don't share context. The
+ * session's original history is the main conversation (thread id null) and
+ * always exists; services without thread endpoints only have that one.
+ *
+ * Branches: editing a question or regenerating an answer sends `parent_id`
+ * or `regenerate_message_id`, and the service stores the result beside the
+ * original instead of after it (see utils/chatBranches.ts). Services that
+ * ignore these fields append the messages to the history as usual, so the
+ * branches are only kept until the history is reloaded.
+ *
+ * Scope: a question can be limited to some of the session's articles with
+ * `article_ids`; retrieval then only searches those. Services that store
+ * the scope return it on the user message. Services that don't know the
+ * field search the whole session, which shows up as sources from other
+ * articles (see sourcesOutsideScope).
+ *
+ * Settings: search mode, number of chunks, LLM and temperature can be set
+ * per question (ChatSettings), overriding the global settings for that
+ * answer. Services that store them return them on the answer as `settings`.
+ * Services that don't know the fields use the global settings; the answer's
+ * metadata shows which ones were ignored (see ignoredSettings).
+ *
+ * Feedback: answers can be rated and their sources flagged as irrelevant
+ * (MessageFeedback). The admin feedback report aggregates the ratings.
  */
 
-import { apiClient } from './client';
-import type { ChatRequest, ChatResponse, ChatHistoryResponse } from './types';
+import {
+	apiClient,
+	API_BASE_URL,
+	ApiTimeoutError,
+	createApiRequestError,
+	createTimeoutSignal,
+	isUnsupportedError,
+	UNSUPPORTED_STATUSES,
+	type RequestConfig
+} from './client';
+import { readEventStream } from './sse';
+import type {
+	ChatRequest,
+	ChatResponse,
+	ChatHistoryResponse,
+	ChatMessageResponse,
+	ChatSource,
+	SearchMode
+} from './types';
+
+/**
+ * How long to wait for the LLM before giving up
+ *
+ * Generation is much slower than other requests, and local providers
+ * (ollama) can take a while to load a model, so this is well above the
+ * client default. For streaming it applies to the gap between events.
+ */
+export const CHAT_TIMEOUT_MS = 120_000;
+
+/**
+ * A named conversation within a session
+ *
+ * Not in the OpenAPI spec yet, so declared here.
+ */
+export interface ChatThread {
+	id: number;
+	session_id: number;
+	title: string;
+	/** Archived threads are hidden from the main list and read-only */
+	archived: boolean;
+	message_count?: number;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface ChatThreadListResponse {
+	threads: ChatThread[];
+}
+
+export interface ChatOptions {
+	/** Thread to use; null or omitted for the session's main conversation */
+	threadId?: number | null;
+	/** Message the question follows; set when branching off an earlier point */
+	parentId?: number | null;
+	/** User message to answer again; the question isn't stored a second time */
+	regenerateId?: number;
+	/** Articles to search; omitted or empty for the whole session */
+	articleIds?: number[];
+	/** Overrides of the global retrieval and LLM settings */
+	settings?: ChatSettings;
+}
+
+/**
+ * Per-question settings; anything left out uses the global setting
+ *
+ * Field names match the request body, as in SearchRequest.
+ */
+export interface ChatSettings {
+	search_mode?: SearchMode;
+	/** Chunks to retrieve as context (1-50) */
+	top_k?: number;
+	llm_provider?: string;
+	llm_model?: string;
+	/** Sampling temperature (0-2) */
+	temperature?: number;
+}
+
+const SEARCH_MODES: readonly string[] = ['dense', 'sparse', 'hybrid'];
+
+/**
+ * Settings a history answer was generated with, or null if none were
+ * overridden (or the service doesn't store them)
+ */
+export function getMessageSettings(message: ChatMessageResponse): ChatSettings | null {
+	const value = (message as { settings?: unknown }).settings;
+	if (!value || typeof value !== 'object') return null;
+
+	const raw = value as Record<string, unknown>;
+	const settings: ChatSettings = {};
+	if (typeof raw.search_mode === 'string' && SEARCH_MODES.includes(raw.search_mode)) {
+		settings.search_mode = raw.search_mode as SearchMode;
+	}
+	if (typeof raw.top_k === 'number') settings.top_k = raw.top_k;
+	if (typeof raw.llm_provider === 'string') settings.llm_provider = raw.llm_provider;
+	if (typeof raw.llm_model === 'string') settings.llm_model = raw.llm_model;
+	if (typeof raw.temperature === 'number') settings.temperature = raw.temperature;
+	return Object.keys(settings).length > 0 ? settings : null;
+}
+
+/**
+ * Settings an answer's metadata shows weren't applied, i.e. the service
+ * used its global settings instead
+ *
+ * Temperature can't be checked, since answers don't report it.
+ */
+export function ignoredSettings(settings: ChatSettings, response: ChatResponse): string[] {
+	const ignored: string[] = [];
+	const metadata = response.retrieval_metadata;
+	if (settings.search_mode && metadata && metadata.search_mode !== settings.search_mode) {
+		ignored.push('search mode');
+	}
+	if (settings.top_k !== undefined && metadata && metadata.chunks_retrieved > settings.top_k) {
+		ignored.push('number of chunks');
+	}
+	if (
+		settings.llm_provider &&
+		response.llm_provider &&
+		response.llm_provider !== settings.llm_provider
+	) {
+		ignored.push('LLM provider');
+	}
+	if (settings.llm_model && response.llm_model && response.llm_model !== settings.llm_model) {
+		ignored.push('model');
+	}
+	return ignored;
+}
+
+/**
+ * Articles a history message's question was limited to, or null for the
+ * whole session (and for services that don't store the scope)
+ */
+export function getMessageScope(message: ChatMessageResponse): number[] | null {
+	const ids = (message as { article_ids?: unknown }).article_ids;
+	if (!Array.isArray(ids)) return null;
+	const scope = ids.filter((id): id is number => typeof id === 'number');
+	return scope.length > 0 ? scope : null;
+}
+
+/**
+ * Whether an answer cites articles outside the scope it was asked with,
+ * i.e. the service ignored `article_ids`
+ */
+export function sourcesOutsideScope(
+	sources: ChatSource[] | null | undefined,
+	articleIds: number[] | undefined
+): boolean {
+	if (!articleIds?.length || !sources) return false;
+	return sources.some((source) => !articleIds.includes(source.article_id));
+}
+
+/**
+ * Id the service gave the question, or null if it doesn't report one
+ */
+export function getUserMessageId(response: ChatResponse): number | null {
+	const id = (response as { user_message_id?: unknown }).user_message_id;
+	return typeof id === 'number' ? id : null;
+}
+
+// Fields the spec doesn't declare yet are added to the generated request type
+type ChatRequestBody = ChatRequest & {
+	thread_id?: number;
+	parent_id?: number | null;
+	regenerate_message_id?: number;
+	article_ids?: number[];
+} & ChatSettings;
+
+function chatRequest(message: string, options: ChatOptions): ChatRequestBody {
+	const request: ChatRequestBody = { message };
+	if (options.threadId != null) request.thread_id = options.threadId;
+	if (options.parentId !== undefined) request.parent_id = options.parentId;
+	if (options.regenerateId !== undefined) request.regenerate_message_id = options.regenerateId;
+	if (options.articleIds?.length) request.article_ids = options.articleIds;
+	return { ...request, ...options.settings };
+}
+
+function threadPath(sessionId: number, threadId: number): string {
+	return `/api/v1/sessions/${sessionId}/chat/threads/${threadId}`;
+}
 
 /**
  * Send a chat message and get response
  */
-export async function sendMessage(sessionId: number, message: string): Promise<ChatResponse> {
-	const request: ChatRequest = { message };
-	return apiClient.post<ChatResponse>(`/api/v1/sessions/${sessionId}/chat`, request);
+export async function sendMessage(
+	sessionId: number,
+	message: string,
+	config?: RequestConfig,
+	options: ChatOptions = {}
+): Promise<ChatResponse> {
+	const request = chatRequest(message, options);
+	return apiClient.request('/api/v1/sessions/{session_id}/chat', 'post', {
+		params: { path: { session_id: sessionId } },
+		body: request,
+		timeoutMs: CHAT_TIMEOUT_MS,
+		...config
+	});
 }
 
 /**
- * Get chat history for a session
+ * Send a chat message and stream the answer token by token
+ *
+ * Stream protocol (text/event-stream):
+ * - `token`: {"content": "..."} - next slice of the answer
+ * - `complete`: ChatResponse - final persisted message including sources
+ * - `error`: {"message": "..."} - generation failed mid-stream
+ *
+ * Fallback: If the service has no streaming endpoint (404/405), the regular
+ * non-streaming endpoint is used and the full answer is emitted as one token,
+ * so callers don't need to branch on server capabilities.
+ *
+ * Cancellation: Aborting `signal` stops generation and rejects with an
+ * AbortError. Tokens received so far have already been delivered.
+ *
+ * Timeout: Rejects with ApiTimeoutError if the service sends nothing for
+ * CHAT_TIMEOUT_MS, e.g. when the LLM provider stalls mid-answer.
+ *
+ * @param sessionId - Session to ask
+ * @param message - User question
+ * @param onToken - Called with each streamed slice of the answer
+ * @param signal - Optional signal to stop generation
+ * @param options - Thread to post into, and where to branch
+ * @returns Final response with sources, once the stream completes
  */
-export async function getChatHistory(sessionId: number): Promise<ChatHistoryResponse> {
-	return apiClient.get<ChatHistoryResponse>(`/api/v1/sessions/${sessionId}/chat/history`);
+export async function streamMessage(
+	sessionId: number,
+	message: string,
+	onToken: (token: string) => void,
+	signal?: AbortSignal,
+	options: ChatOptions = {}
+): Promise<ChatResponse> {
+	const endpoint = `/api/v1/sessions/${sessionId}/chat/stream`;
+	const request = chatRequest(message, options);
+	const timeout = createTimeoutSignal(CHAT_TIMEOUT_MS, signal);
+
+	// Assigned from the event callback; the casts stop TS narrowing them to null
+	let result = null as ChatResponse | null;
+	let streamError = null as string | null;
+
+	try {
+		const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				Accept: 'text/event-stream'
+			},
+			body: JSON.stringify(request),
+			signal: timeout.signal
+		});
+
+		if (response.status === 404 || response.status === 405) {
+			timeout.dispose();
+			const fallback = await sendMessage(sessionId, message, { signal }, options);
+			onToken(fallback.content);
+			return fallback;
+		}
+
+		if (!response.ok) {
+			const body = await response.text().catch(() => '');
+			throw createApiRequestError(response.status, endpoint, body, response.statusText);
+		}
+		if (!response.body) {
+			throw new Error('Failed to send message');
+		}
+
+		await readEventStream(
+			response.body,
+			(event) => {
+				timeout.reset();
+				try {
+					if (event.event === 'token') {
+						onToken((JSON.parse(event.data) as { content: string }).content);
+					} else if (event.event === 'complete') {
+						result = JSON.parse(event.data) as ChatResponse;
+					} else if (event.event === 'error') {
+						streamError = (JSON.parse(event.data) as { message: string }).message;
+					}
+				} catch (parseError) {
+					console.error(`Failed to parse ${event.event} event:`, parseError);
+				}
+			},
+			timeout.signal
+		);
+	} catch (error) {
+		if (timeout.timedOut) {
+			throw new ApiTimeoutError(endpoint, CHAT_TIMEOUT_MS);
+		}
+		throw error;
+	} finally {
+		timeout.dispose();
+	}
+
+	if (streamError) {
+		throw new Error(streamError);
+	}
+	if (!result) {
+		throw new Error('Response stream ended before the answer was complete');
+	}
+	return result;
+}
+
+/**
+ * Get chat history for a session, or for one of its threads
+ */
+export async function getChatHistory(
+	sessionId: number,
+	config?: RequestConfig,
+	options: ChatOptions = {}
+): Promise<ChatHistoryResponse> {
+	if (options.threadId != null) {
+		return apiClient.get<ChatHistoryResponse>(
+			`${threadPath(sessionId, options.threadId)}/history`,
+			config
+		);
+	}
+	return apiClient.request('/api/v1/sessions/{session_id}/chat/history', 'get', {
+		params: { path: { session_id: sessionId } },
+		...config
+	});
+}
+
+/**
+ * Clear chat history for a session, or for one of its threads
+ */
+export async function clearChatHistory(
+	sessionId: number,
+	options: ChatOptions = {}
+): Promise<void> {
+	if (options.threadId != null) {
+		await apiClient.delete(`${threadPath(sessionId, options.threadId)}/history`);
+		return;
+	}
+	await apiClient.request('/api/v1/sessions/{session_id}/chat/history', 'delete', {
+		params: { path: { session_id: sessionId } }
+	});
+}
+
+/**
+ * List a session's threads, including archived ones
+ *
+ * @returns The threads, or null if the service has no thread endpoints
+ *   (404/405)
+ */
+export async function getChatThreads(
+	sessionId: number,
+	config?: RequestConfig
+): Promise<ChatThread[] | null> {
+	try {
+		const response = await apiClient.get<ChatThreadListResponse>(
+			`/api/v1/sessions/${sessionId}/chat/threads`,
+			{ ...config, quietStatuses: UNSUPPORTED_STATUSES }
+		);
+		return response.threads;
+	} catch (error) {
+		if (isUnsupportedError(error)) return null;
+		throw error;
+	}
+}
+
+export async function createChatThread(sessionId: number, title: string): Promise<ChatThread> {
+	return apiClient.post<ChatThread>(`/api/v1/sessions/${sessionId}/chat/threads`, { title });
+}
+
+/**
+ * Rename, archive or unarchive a thread
+ */
+export async function updateChatThread(
+	sessionId: number,
+	threadId: number,
+	changes: Partial<Pick<ChatThread, 'title' | 'archived'>>
+): Promise<ChatThread> {
+	return apiClient.patch<ChatThread>(threadPath(sessionId, threadId), changes);
+}
+
+/**
+ * Delete a thread and its history
+ */
+export async function deleteChatThread(sessionId: number, threadId: number): Promise<void> {
+	await apiClient.delete(threadPath(sessionId, threadId));
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackReason = 'hallucinated' | 'wrong_source' | 'incomplete';
+
+export const FEEDBACK_REASONS: { value: FeedbackReason; label: string }[] = [
+	{ value: 'hallucinated', label: 'Hallucinated' },
+	{ value: 'wrong_source', label: 'Wrong source' },
+	{ value: 'incomplete', label: 'Incomplete' }
+];
+
+/**
+ * A reader's rating of an answer
+ */
+export interface MessageFeedback {
+	/** Null when only sources were flagged */
+	rating: FeedbackRating | null;
+	reasons: FeedbackReason[];
+	/** Citation indexes of sources flagged as irrelevant */
+	irrelevant_sources: number[];
+}
+
+export const EMPTY_FEEDBACK: MessageFeedback = {
+	rating: null,
+	reasons: [],
+	irrelevant_sources: []
+};
+
+/**
+ * Feedback stored on a history answer, or null if there is none (or the
+ * service doesn't return it)
+ */
+export function getMessageFeedback(message: ChatMessageResponse): MessageFeedback | null {
+	const value = (message as { feedback?: unknown }).feedback;
+	if (!value || typeof value !== 'object') return null;
+
+	const raw = value as Record<string, unknown>;
+	const reasons = Array.isArray(raw.reasons) ? raw.reasons : [];
+	const irrelevant = Array.isArray(raw.irrelevant_sources) ? raw.irrelevant_sources : [];
+	return {
+		rating: raw.rating === 'up' || raw.rating === 'down' ? raw.rating : null,
+		reasons: reasons.filter((r): r is FeedbackReason =>
+			FEEDBACK_REASONS.some((reason) => reason.value === r)
+		),
+		irrelevant_sources: irrelevant.filter((i): i is number => typeof i === 'number')
+	};
 }
 
 /**
- * Clear chat history for a session
+ * Save feedback on an answer, replacing any given before
+ *
+ * Error Handling: services without feedback support reject with 404/405;
+ * check with isUnsupportedError.
  */
-export async function clearChatHistory(sessionId: number): Promise<void> {
-	await apiClient.delete(`/api/v1/sessions/${sessionId}/chat/history`);
+export async function submitMessageFeedback(
+	sessionId: number,
+	messageId: number,
+	feedback: MessageFeedback
+): Promise<MessageFeedback> {
+	return apiClient.post<MessageFeedback>(
+		`/api/v1/sessions/${sessionId}/chat/messages/${messageId}/feedback`,
+		feedback,
+		{ quietStatuses: UNSUPPORTED_STATUSES }
+	);
 }
@@ -2,6 +2,8 @@
  * Base API client for article-mind-service
  */
 
+import type { paths } from './generated';
+
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:13010';
 
 export interface ApiError {
@@ -20,46 +22,483 @@ export interface FastAPIError {
 }
 
 /**
- * Extract error message from various error response formats
+ * One entry of a FastAPI HTTPValidationError (422) response
+ */
+export interface FieldError {
+	/** Dotted field path with the `body`/`query`/`path` prefix removed, e.g. "url" */
+	field: string;
+	message: string;
+	/** Raw location from the service, e.g. ["body", "url"] */
+	loc: (string | number)[];
+	type?: string;
+}
+
+const LOCATION_PREFIXES = new Set(['body', 'query', 'path', 'header', 'cookie']);
+
+/**
+ * Error thrown by ApiClient for any non-2xx response
+ *
+ * Keeps the HTTP status, the API contract `error.code` and any per-field
+ * validation errors so callers can react to specific failures (404 vs 409
+ * vs 410) and highlight the offending form input instead of only showing
+ * a message string.
+ */
+export class ApiRequestError extends Error {
+	readonly status: number;
+	readonly code: string | null;
+	readonly fieldErrors: FieldError[];
+	readonly path: string;
+	readonly details: unknown;
+
+	constructor(options: {
+		message: string;
+		status: number;
+		path: string;
+		code?: string | null;
+		fieldErrors?: FieldError[];
+		details?: unknown;
+	}) {
+		super(options.message);
+		this.name = 'ApiRequestError';
+		this.status = options.status;
+		this.path = options.path;
+		this.code = options.code ?? null;
+		this.fieldErrors = options.fieldErrors ?? [];
+		this.details = options.details;
+	}
+
+	get isNotFound(): boolean {
+		return this.status === 404;
+	}
+
+	get isConflict(): boolean {
+		return this.status === 409;
+	}
+
+	get isGone(): boolean {
+		return this.status === 410;
+	}
+
+	get isValidationError(): boolean {
+		return this.status === 422 || this.fieldErrors.length > 0;
+	}
+
+	/**
+	 * First validation message reported for a field, if any
+	 */
+	fieldError(field: string): string | undefined {
+		return this.fieldErrors.find((entry) => entry.field === field)?.message;
+	}
+}
+
+/**
+ * Field errors of an ApiRequestError as a field → message map
+ *
+ * Convenience for forms: returns an empty map for any other kind of error.
+ */
+export function getFieldErrors(error: unknown): Record<string, string> {
+	const result: Record<string, string> = {};
+	if (!(error instanceof ApiRequestError)) return result;
+
+	for (const entry of error.fieldErrors) {
+		if (!(entry.field in result)) {
+			result[entry.field] = entry.message;
+		}
+	}
+	return result;
+}
+
+/**
+ * Error thrown when a request gets no response within its timeout
+ */
+export class ApiTimeoutError extends Error {
+	readonly timeoutMs: number;
+	readonly path: string;
+
+	constructor(path: string, timeoutMs: number) {
+		super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+		this.name = 'ApiTimeoutError';
+		this.path = path;
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+/**
+ * Whether an error comes from the caller aborting the request
+ *
+ * Aborts are expected (component unmounted, user pressed stop) and should
+ * not be shown as errors.
+ */
+export function isAbortError(error: unknown): boolean {
+	return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Statuses a service answers with when it lacks an endpoint
+ */
+export const UNSUPPORTED_STATUSES = [404, 405];
+
+/**
+ * Whether a request failed because the service lacks the endpoint (404/405)
+ *
+ * Used to fall back when talking to a service that predates a feature. Pass
+ * `quietStatuses: UNSUPPORTED_STATUSES` with such requests so the expected
+ * failure isn't logged.
+ */
+export function isUnsupportedError(error: unknown): boolean {
+	return error instanceof ApiRequestError && UNSUPPORTED_STATUSES.includes(error.status);
+}
+
+/**
+ * Per-request options for cancellation, timeout and retries
+ */
+export interface RequestConfig {
+	/** Cancels the request, e.g. when the calling component is destroyed */
+	signal?: AbortSignal;
+	/** Milliseconds to wait for a response; 0 disables the timeout */
+	timeoutMs?: number;
+	/** Retry attempts for idempotent requests; defaults to the client setting */
+	retries?: number;
+	/** Lets the request finish after the page unloads, like navigator.sendBeacon */
+	keepalive?: boolean;
+	/** Error statuses the caller handles itself, which aren't logged */
+	quietStatuses?: number[];
+}
+
+export interface ApiClientOptions {
+	/** Default request timeout in milliseconds */
+	timeoutMs?: number;
+	/** Default retry attempts for idempotent requests */
+	retries?: number;
+	/** Delay before the first retry; doubles on every further attempt */
+	retryDelayMs?: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+// Gateway errors usually mean the backend is restarting or overloaded
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD']);
+
+/**
+ * Abort signal that fires on caller abort or after a period of inactivity
+ *
+ * `reset()` restarts the timer, so long-running streams can use it as an
+ * idle timeout by resetting on every chunk. Always call `dispose()` when the
+ * request settles to clear the timer and listener.
+ */
+export function createTimeoutSignal(timeoutMs: number, signal?: AbortSignal) {
+	const controller = new AbortController();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let timedOut = false;
+
+	const onAbort = () => controller.abort(signal?.reason);
+	if (signal?.aborted) {
+		onAbort();
+	} else {
+		signal?.addEventListener('abort', onAbort, { once: true });
+	}
+
+	function reset() {
+		clearTimeout(timer);
+		if (timeoutMs > 0 && !controller.signal.aborted) {
+			timer = setTimeout(() => {
+				timedOut = true;
+				controller.abort();
+			}, timeoutMs);
+		}
+	}
+
+	reset();
+
+	return {
+		signal: controller.signal,
+		get timedOut() {
+			return timedOut;
+		},
+		reset,
+		dispose() {
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', onAbort);
+		}
+	};
+}
+
+/**
+ * Wait for `ms`, rejecting early with the abort reason if `signal` aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+function isRetryable(error: unknown): boolean {
+	if (error instanceof ApiRequestError) return RETRYABLE_STATUSES.has(error.status);
+	// fetch rejects with a TypeError on network failures
+	return error instanceof ApiTimeoutError || error instanceof TypeError;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse FastAPI `detail: [{loc, msg, type}]` validation entries
+ */
+function parseFieldErrors(detail: unknown): FieldError[] {
+	if (!Array.isArray(detail)) return [];
+
+	return detail.filter(isRecord).flatMap((entry) => {
+		if (!Array.isArray(entry.loc) || typeof entry.msg !== 'string') return [];
+
+		const loc = entry.loc.filter(
+			(part): part is string | number => typeof part === 'string' || typeof part === 'number'
+		);
+		const fieldParts = LOCATION_PREFIXES.has(String(loc[0])) ? loc.slice(1) : loc;
+
+		return [
+			{
+				field: fieldParts.join('.'),
+				message: entry.msg,
+				loc,
+				...(typeof entry.type === 'string' && { type: entry.type })
+			}
+		];
+	});
+}
+
+/**
+ * Extract error message, code and field errors from various error response formats
  */
-function extractErrorMessage(errorData: unknown): string {
-	// Handle custom API contract format: { error: { message: "..." } }
-	if (
-		errorData &&
-		typeof errorData === 'object' &&
-		'error' in errorData &&
-		errorData.error &&
-		typeof errorData.error === 'object' &&
-		'message' in errorData.error &&
-		typeof errorData.error.message === 'string'
-	) {
-		return errorData.error.message;
+function parseErrorResponse(errorData: unknown): {
+	message: string;
+	code: string | null;
+	fieldErrors: FieldError[];
+	details?: unknown;
+} {
+	// Handle custom API contract format: { error: { code: "...", message: "..." } }
+	if (isRecord(errorData) && isRecord(errorData.error)) {
+		const { code, message, details } = errorData.error;
+		if (typeof message === 'string') {
+			return {
+				message,
+				code: typeof code === 'string' ? code : null,
+				fieldErrors: parseFieldErrors(details),
+				details
+			};
+		}
 	}
 
-	// Handle FastAPI default format: { detail: "..." } or { detail: {...} }
-	if (errorData && typeof errorData === 'object' && 'detail' in errorData) {
+	// Handle FastAPI default format: { detail: "..." }, { detail: [...] } or { detail: {...} }
+	if (isRecord(errorData) && 'detail' in errorData) {
 		const detail = errorData.detail;
 		if (typeof detail === 'string') {
-			return detail;
+			return { message: detail, code: null, fieldErrors: [] };
+		}
+
+		const fieldErrors = parseFieldErrors(detail);
+		if (fieldErrors.length > 0) {
+			const message = fieldErrors
+				.map((entry) => (entry.field ? `${entry.field}: ${entry.message}` : entry.message))
+				.join('; ');
+			return { message, code: null, fieldErrors, details: detail };
 		}
+
 		if (typeof detail === 'object' && detail !== null) {
-			return JSON.stringify(detail);
+			return { message: JSON.stringify(detail), code: null, fieldErrors: [], details: detail };
 		}
 	}
 
 	// Fallback for unexpected formats
-	return 'API request failed';
+	return { message: 'API request failed', code: null, fieldErrors: [] };
+}
+
+/**
+ * Build an ApiRequestError from a raw error response body
+ *
+ * For requests that don't go through ApiClient.fetch, e.g. XHR uploads that
+ * need upload progress events.
+ */
+export function createApiRequestError(
+	status: number,
+	path: string,
+	bodyText: string,
+	statusText = ''
+): ApiRequestError {
+	let parsed: ReturnType<typeof parseErrorResponse>;
+	try {
+		parsed = parseErrorResponse(JSON.parse(bodyText));
+	} catch {
+		parsed = { message: statusText || 'API request failed', code: null, fieldErrors: [] };
+	}
+	return new ApiRequestError({ ...parsed, status, path });
+}
+
+/**
+ * Typed request helpers derived from the OpenAPI `paths` map in generated.ts
+ *
+ * Design Decision: Infer request/response types from generated.ts instead of
+ * hand-written interfaces
+ *
+ * Rationale: `make gen-api` regenerates generated.ts from the service's
+ * OpenAPI spec. Deriving path params, query params, request bodies and
+ * response types from it means any contract change shows up as a compile
+ * error at the call site instead of drifting silently.
+ *
+ * Trade-offs:
+ * - Type-level complexity lives here once; call sites stay simple
+ * - Only JSON bodies are typed; multipart uploads still use fetch directly
+ */
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+type SuccessStatus = 200 | 201 | 202 | 204;
+
+/** Paths that define an operation for the given method */
+export type PathsWithMethod<M extends HttpMethod> = {
+	[P in keyof paths]: paths[P][M] extends { responses: unknown } ? P : never;
+}[keyof paths];
+
+/** Operation object for a path + method pair */
+export type Operation<P extends keyof paths, M extends HttpMethod> = NonNullable<paths[P][M]>;
+
+type PathParamsOf<Op> = Op extends { parameters: { path: infer T } } ? T : never;
+
+type QueryParamsOf<Op> = Op extends { parameters: { query?: infer T } }
+	? [NonNullable<T>] extends [never]
+		? never
+		: NonNullable<T>
+	: never;
+
+type RequestBodyOf<Op> = Op extends { requestBody?: infer RB }
+	? [NonNullable<RB>] extends [never]
+		? never
+		: NonNullable<RB> extends { content: { 'application/json': infer B } }
+			? B
+			: never
+	: never;
+
+/** JSON body of the operation's success response (`void` for 204) */
+export type ResponseOf<Op> = Op extends { responses: infer R }
+	? {
+			[S in keyof R & SuccessStatus]: R[S] extends { content: { 'application/json': infer T } }
+				? T
+				: void;
+		}[keyof R & SuccessStatus]
+	: never;
+
+type ParamsOption<Op> = ([PathParamsOf<Op>] extends [never]
+	? { path?: never }
+	: { path: PathParamsOf<Op> }) &
+	([QueryParamsOf<Op>] extends [never] ? { query?: never } : { query?: QueryParamsOf<Op> });
+
+/** Options for ApiClient.request; `params` and `body` are required only when the operation needs them */
+export type RequestOptions<Op> = ([PathParamsOf<Op>] extends [never]
+	? { params?: ParamsOption<Op> }
+	: { params: ParamsOption<Op> }) &
+	([RequestBodyOf<Op>] extends [never] ? { body?: never } : { body: RequestBodyOf<Op> }) &
+	RequestConfig;
+
+type RequestArgs<Op> =
+	Record<string, never> extends RequestOptions<Op>
+		? [options?: RequestOptions<Op>]
+		: [options: RequestOptions<Op>];
+
+/**
+ * Substitute `{name}` segments and append the query string
+ */
+function buildPath(
+	template: string,
+	pathParams?: Record<string, string | number>,
+	query?: Record<string, unknown>
+): string {
+	const path = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+		const value = pathParams?.[name];
+		if (value === undefined) {
+			throw new Error(`Missing path parameter "${name}" for ${template}`);
+		}
+		return encodeURIComponent(String(value));
+	});
+
+	const search = new URLSearchParams();
+	for (const [key, value] of Object.entries(query ?? {})) {
+		if (value === undefined || value === null) continue;
+		for (const item of Array.isArray(value) ? value : [value]) {
+			search.append(key, String(item));
+		}
+	}
+
+	const queryString = search.toString();
+	return queryString ? `${path}?${queryString}` : path;
 }
 
 export class ApiClient {
 	private baseUrl: string;
+	private timeoutMs: number;
+	private retries: number;
+	private retryDelayMs: number;
 
-	constructor(baseUrl: string = API_BASE_URL) {
+	constructor(baseUrl: string = API_BASE_URL, options: ApiClientOptions = {}) {
 		this.baseUrl = baseUrl;
+		this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+		this.retries = options.retries ?? DEFAULT_RETRIES;
+		this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
 	}
 
-	async fetch<T>(endpoint: string, options?: RequestInit): Promise<T> {
+	/**
+	 * Send a request and parse the JSON response
+	 *
+	 * Idempotent requests (GET/HEAD) are retried with exponential backoff on
+	 * network errors, timeouts and 502/503/504 responses. Aborting
+	 * `config.signal` rejects with an AbortError and is never retried.
+	 */
+	async fetch<T>(endpoint: string, options?: RequestInit, config: RequestConfig = {}): Promise<T> {
+		const method = (options?.method ?? 'GET').toUpperCase();
+		const maxRetries = IDEMPOTENT_METHODS.has(method) ? (config.retries ?? this.retries) : 0;
+
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await this.fetchOnce<T>(endpoint, options, config);
+			} catch (error) {
+				if (attempt < maxRetries && isRetryable(error) && !config.signal?.aborted) {
+					await delay(this.retryDelayMs * 2 ** attempt, config.signal);
+					continue;
+				}
+				const quiet =
+					error instanceof ApiRequestError && config.quietStatuses?.includes(error.status);
+				if (!isAbortError(error) && !quiet) {
+					console.error('API request failed:', error);
+				}
+				throw error;
+			}
+		}
+	}
+
+	private async fetchOnce<T>(
+		endpoint: string,
+		options: RequestInit | undefined,
+		config: RequestConfig
+	): Promise<T> {
+		config.signal?.throwIfAborted();
+
 		const url = `${this.baseUrl}${endpoint}`;
+		const timeoutMs = config.timeoutMs ?? this.timeoutMs;
+		const timeout = createTimeoutSignal(timeoutMs, config.signal);
 
 		try {
 			const response = await fetch(url, {
@@ -67,50 +506,110 @@ export class ApiClient {
 				headers: {
 					'Content-Type': 'application/json',
 					...options?.headers
-				}
+				},
+				signal: timeout.signal,
+				...(config.keepalive && { keepalive: true })
 			});
 
 			if (!response.ok) {
-				let errorMessage = 'API request failed';
+				let parsed: ReturnType<typeof parseErrorResponse>;
 
 				try {
 					const errorData = await response.json();
-					errorMessage = extractErrorMessage(errorData);
+					parsed = parseErrorResponse(errorData);
 				} catch {
 					// If JSON parsing fails, use status text
-					errorMessage = response.statusText || 'API request failed';
+					parsed = {
+						message: response.statusText || 'API request failed',
+						code: null,
+						fieldErrors: []
+					};
 				}
 
-				throw new Error(errorMessage);
+				throw new ApiRequestError({ ...parsed, status: response.status, path: endpoint });
+			}
+
+			// 204 No Content (e.g. deletes) has no body to parse
+			if (response.status === 204) {
+				return undefined as T;
 			}
 
-			return response.json();
+			return await response.json();
 		} catch (error) {
-			console.error('API request failed:', error);
+			if (timeout.timedOut) {
+				throw new ApiTimeoutError(endpoint, timeoutMs);
+			}
 			throw error;
+		} finally {
+			timeout.dispose();
 		}
 	}
 
-	async get<T>(endpoint: string): Promise<T> {
-		return this.fetch<T>(endpoint, { method: 'GET' });
+	/**
+	 * Typed request against an OpenAPI path
+	 *
+	 * @example
+	 * const article = await apiClient.request(
+	 *   '/api/v1/sessions/{session_id}/articles/{article_id}',
+	 *   'get',
+	 *   { params: { path: { session_id: 1, article_id: 2 } }, signal }
+	 * );
+	 */
+	async request<P extends PathsWithMethod<M>, M extends HttpMethod>(
+		path: P,
+		method: M,
+		...[options]: RequestArgs<Operation<P, M>>
+	): Promise<ResponseOf<Operation<P, M>>> {
+		const params = options?.params as
+			| { path?: Record<string, string | number>; query?: Record<string, unknown> }
+			| undefined;
+		const endpoint = buildPath(path, params?.path, params?.query);
+		const body = options?.body;
+
+		return this.fetch<ResponseOf<Operation<P, M>>>(
+			endpoint,
+			{
+				method: method.toUpperCase(),
+				...(body !== undefined && { body: JSON.stringify(body) })
+			},
+			{
+				signal: options?.signal,
+				timeoutMs: options?.timeoutMs,
+				retries: options?.retries,
+				keepalive: options?.keepalive,
+				quietStatuses: options?.quietStatuses
+			}
+		);
+	}
+
+	async get<T>(endpoint: string, config?: RequestConfig): Promise<T> {
+		return this.fetch<T>(endpoint, { method: 'GET' }, config);
 	}
 
-	async post<T>(endpoint: string, data: unknown): Promise<T> {
-		return this.fetch<T>(endpoint, {
-			method: 'POST',
-			body: JSON.stringify(data)
-		});
+	async post<T>(endpoint: string, data: unknown, config?: RequestConfig): Promise<T> {
+		return this.fetch<T>(
+			endpoint,
+			{
+				method: 'POST',
+				body: JSON.stringify(data)
+			},
+			config
+		);
 	}
 
-	async patch<T>(endpoint: string, data: unknown): Promise<T> {
-		return this.fetch<T>(endpoint, {
-			method: 'PATCH',
-			body: JSON.stringify(data)
-		});
+	async patch<T>(endpoint: string, data: unknown, config?: RequestConfig): Promise<T> {
+		return this.fetch<T>(
+			endpoint,
+			{
+				method: 'PATCH',
+				body: JSON.stringify(data)
+			},
+			config
+		);
 	}
 
-	async delete<T>(endpoint: string): Promise<T> {
-		return this.fetch<T>(endpoint, { method: 'DELETE' });
+	async delete<T>(endpoint: string, config?: RequestConfig): Promise<T> {
+		return this.fetch<T>(endpoint, { method: 'DELETE' }, config);
 	}
 }
 
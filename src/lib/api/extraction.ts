@@ -0,0 +1,190 @@
+/**
+ * Live article extraction status
+ *
+ * Design Decision: SSE first, polling fallback
+ *
+ * Rationale: A `GET /sessions/{id}/articles/events` stream pushes each
+ * article as its extraction status changes, which is immediate and cheap.
+ * If the stream is missing, drops or sends something unreadable, the regular
+ * article list is polled instead, backing off while nothing changes so a long
+ * PDF extraction doesn't hammer the API.
+ *
+ * Either way, only the articles that changed are reported. The caller merges
+ * them into its own list, so articles it removed in the meantime stay removed.
+ * Watching stops on its own once no article is pending or processing.
+ */
+
+import { API_BASE_URL, delay } from './client';
+import { getArticles } from './articles';
+import { readEventStream } from './sse';
+import type { ArticleResponse, ExtractionStatus } from './types';
+
+export interface ExtractionWatchOptions {
+	/** Stops watching; the returned promise resolves rather than rejects */
+	signal?: AbortSignal;
+	/** First polling interval, also used again after any status change */
+	initialDelayMs?: number;
+	/** Upper bound for the polling interval */
+	maxDelayMs?: number;
+}
+
+const DEFAULT_INITIAL_DELAY_MS = 2_000;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+const BACKOFF_FACTOR = 1.5;
+
+/**
+ * Whether extraction is still running for the article
+ */
+export function isExtractionActive(status: ExtractionStatus): boolean {
+	return status === 'pending' || status === 'processing';
+}
+
+/**
+ * Follow extraction progress until every article has settled
+ *
+ * @param sessionId - Session whose articles to watch
+ * @param initialArticles - Current article list, used as the baseline
+ * @param onUpdate - Called with the articles whose status changed
+ * @param options - Cancellation and polling intervals
+ *
+ * @example
+ * const controller = new AbortController();
+ * watchExtraction(
+ *   sessionId,
+ *   articles,
+ *   (changed) => (articles = mergeArticles(articles, changed)),
+ *   { signal: controller.signal }
+ * );
+ */
+export async function watchExtraction(
+	sessionId: number,
+	initialArticles: ArticleResponse[],
+	onUpdate: (changed: ArticleResponse[]) => void,
+	options: ExtractionWatchOptions = {}
+): Promise<void> {
+	const { signal } = options;
+	if (!initialArticles.some((a) => isExtractionActive(a.extraction_status))) return;
+
+	try {
+		const latest = await streamExtraction(sessionId, initialArticles, onUpdate, signal);
+		// Poll if there is no stream, or it stopped before everything settled
+		if (latest.some((a) => isExtractionActive(a.extraction_status))) {
+			await pollExtraction(sessionId, latest, onUpdate, options);
+		}
+	} catch (error) {
+		if (signal?.aborted) return;
+		throw error;
+	}
+}
+
+/**
+ * Replace articles in `articles` with their updated versions from `changed`
+ *
+ * Articles that aren't in `articles` are ignored, so an update can't bring
+ * back an article the caller has removed.
+ */
+export function mergeArticles(
+	articles: ArticleResponse[],
+	changed: ArticleResponse[]
+): ArticleResponse[] {
+	const byId = new Map(changed.map((a) => [a.id, a]));
+	return articles.map((a) => byId.get(a.id) ?? a);
+}
+
+/**
+ * Report pushed article updates until everything settles or the stream ends
+ *
+ * Resolves with the latest known articles. Any stream failure other than
+ * `signal` aborting also resolves, leaving the rest to polling.
+ */
+async function streamExtraction(
+	sessionId: number,
+	initialArticles: ArticleResponse[],
+	onUpdate: (changed: ArticleResponse[]) => void,
+	signal?: AbortSignal
+): Promise<ArticleResponse[]> {
+	// Closes the stream once nothing is left to watch
+	const controller = new AbortController();
+	const onAbort = () => controller.abort();
+	signal?.addEventListener('abort', onAbort, { once: true });
+
+	let articles = initialArticles;
+
+	try {
+		const response = await fetch(`${API_BASE_URL}/api/v1/sessions/${sessionId}/articles/events`, {
+			headers: { Accept: 'text/event-stream' },
+			signal: controller.signal
+		});
+
+		if (!response.ok || !response.body) {
+			return articles;
+		}
+
+		await readEventStream(
+			response.body,
+			(event) => {
+				if (event.event !== 'article') return;
+
+				const updated = JSON.parse(event.data) as ArticleResponse;
+				if (!articles.some((a) => a.id === updated.id)) return;
+				articles = mergeArticles(articles, [updated]);
+				onUpdate([updated]);
+
+				if (!articles.some((a) => isExtractionActive(a.extraction_status))) {
+					controller.abort();
+				}
+			},
+			controller.signal
+		);
+		return articles;
+	} catch (error) {
+		if (signal?.aborted) throw error;
+		// Closed by us because everything settled, or the stream failed
+		if (!controller.signal.aborted) {
+			console.warn('Extraction stream failed, polling instead:', error);
+		}
+		return articles;
+	} finally {
+		signal?.removeEventListener('abort', onAbort);
+		controller.abort();
+	}
+}
+
+/**
+ * Re-fetch the article list with exponential backoff while nothing changes
+ */
+async function pollExtraction(
+	sessionId: number,
+	initialArticles: ArticleResponse[],
+	onUpdate: (changed: ArticleResponse[]) => void,
+	options: ExtractionWatchOptions
+): Promise<void> {
+	const { signal } = options;
+	const initialDelay = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+	const maxDelay = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+	let previous = statusById(initialArticles);
+	let interval = initialDelay;
+
+	for (;;) {
+		await delay(interval, signal);
+		const { items } = await getArticles(sessionId, { signal });
+		// Only articles being watched; others were added or removed elsewhere
+		const watched = items.filter((a) => previous.has(a.id));
+		const changed = watched.filter((a) => previous.get(a.id) !== a.extraction_status);
+
+		if (changed.length > 0) {
+			onUpdate(changed);
+			interval = initialDelay;
+		} else {
+			interval = Math.min(interval * BACKOFF_FACTOR, maxDelay);
+		}
+		previous = statusById(watched);
+
+		if (!watched.some((a) => isExtractionActive(a.extraction_status))) return;
+	}
+}
+
+function statusById(articles: ArticleResponse[]): Map<number, ExtractionStatus> {
+	return new Map(articles.map((a) => [a.id, a.extraction_status]));
+}
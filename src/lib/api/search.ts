@@ -0,0 +1,39 @@
+/**
+ * Search API client functions
+ */
+
+import { apiClient, type RequestConfig } from './client';
+import type { SearchRequest, SearchResponse, SearchStats } from './types';
+
+/**
+ * Search a session's indexed article chunks
+ *
+ * Modes:
+ * - hybrid: dense + sparse results fused with RRF (default)
+ * - dense: semantic similarity only
+ * - sparse: BM25 keyword matching only
+ */
+export async function searchSession(
+	sessionId: number,
+	request: SearchRequest,
+	config?: RequestConfig
+): Promise<SearchResponse> {
+	return apiClient.request('/api/v1/sessions/{session_id}/search', 'post', {
+		params: { path: { session_id: sessionId } },
+		body: request,
+		...config
+	});
+}
+
+/**
+ * Get search index statistics for a session
+ */
+export async function getSearchStats(
+	sessionId: number,
+	config?: RequestConfig
+): Promise<SearchStats> {
+	return apiClient.request('/api/v1/sessions/{session_id}/search/stats', 'get', {
+		params: { path: { session_id: sessionId } },
+		...config
+	});
+}
@@ -1,26 +1,37 @@
 /**
- * Server-Sent Events (SSE) utility for real-time progress tracking
+ * Server-Sent Events (SSE) utility for real-time progress tracking and streaming
  *
- * Design Decision: EventSource-based streaming for admin progress
+ * Design Decision: fetch + ReadableStream based SSE reader
  *
- * Rationale: SSE chosen over WebSockets for unidirectional progress updates.
- * Simpler protocol, automatic reconnection, and native browser support make it
- * ideal for admin operations where server pushes progress but client doesn't
- * send updates during the stream.
+ * Rationale: SSE chosen over WebSockets for unidirectional server pushes
+ * (admin progress, chat token streaming). Parsing the stream ourselves instead
+ * of using EventSource lets the same reader handle POST requests with a JSON
+ * body (chat), cancellation through AbortSignal, and mock streams in unit tests.
  *
  * Trade-offs:
  * - Simplicity: SSE is HTTP-based, no special server config vs. WebSocket complexity
- * - Reconnection: Browser handles reconnect automatically vs. manual WebSocket handling
- * - Limitation: Unidirectional only (server→client), but sufficient for progress tracking
+ * - Reconnection: No automatic reconnect, but callers already treat a dropped
+ *   connection as terminal and surface it to the user
+ * - Limitation: Unidirectional only (server→client), but sufficient for progress
+ *   tracking and token streaming
  *
  * Alternatives Considered:
- * 1. WebSockets: Rejected - overkill for one-way progress updates
- * 2. Polling: Rejected - inefficient for real-time updates, higher server load
- * 3. Long polling: Rejected - SSE is cleaner and better supported
+ * 1. WebSockets: Rejected - overkill for one-way updates
+ * 2. EventSource: Rejected - GET only, no request body, no AbortSignal
+ * 3. Polling: Rejected - inefficient for real-time updates, higher server load
  */
 
 import { API_BASE_URL } from './client';
 
+/**
+ * Single event parsed from a text/event-stream body
+ */
+export interface ServerSentEvent {
+	event: string; // Defaults to 'message' when the server omits `event:`
+	data: string;
+	id: string | null;
+}
+
 /**
  * Progress event sent from backend via SSE
  *
@@ -38,6 +49,103 @@ export interface ProgressEvent {
 	errors: Array<{ item_id: string; error: string }>;
 }
 
+/**
+ * Read a text/event-stream body and dispatch each complete event
+ *
+ * Follows the SSE wire format: events are separated by a blank line, `data:`
+ * lines are joined with newlines, lines starting with `:` are comments, and
+ * LF, CR and CRLF line endings are all accepted. A trailing event without a
+ * terminating blank line is discarded, as browsers do.
+ *
+ * Resolves when the stream ends. Rejects with an AbortError if `signal` is
+ * aborted while reading.
+ *
+ * @param body - Response body stream
+ * @param onEvent - Callback invoked for every dispatched event
+ * @param signal - Optional signal to stop reading early
+ */
+export async function readEventStream(
+	body: ReadableStream<Uint8Array>,
+	onEvent: (event: ServerSentEvent) => void,
+	signal?: AbortSignal
+): Promise<void> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	const abort = () => reader.cancel().catch(() => {});
+	signal?.addEventListener('abort', abort, { once: true });
+
+	let buffer = '';
+	let eventType = '';
+	let dataLines: string[] = [];
+	let lastEventId: string | null = null;
+
+	const processLine = (line: string) => {
+		if (line === '') {
+			// Blank line: dispatch the pending event
+			if (dataLines.length > 0) {
+				onEvent({ event: eventType || 'message', data: dataLines.join('\n'), id: lastEventId });
+			}
+			eventType = '';
+			dataLines = [];
+			return;
+		}
+		if (line.startsWith(':')) return; // Comment / keep-alive
+
+		const colon = line.indexOf(':');
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? '' : line.slice(colon + 1);
+		if (value.startsWith(' ')) value = value.slice(1);
+
+		switch (field) {
+			case 'event':
+				eventType = value;
+				break;
+			case 'data':
+				dataLines.push(value);
+				break;
+			case 'id':
+				lastEventId = value;
+				break;
+		}
+	};
+
+	try {
+		while (true) {
+			if (signal?.aborted) {
+				throw new DOMException('Stream reading aborted', 'AbortError');
+			}
+
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true });
+
+			// Split on any line ending; keep a trailing CR until we know if LF follows
+			let match: RegExpExecArray | null;
+			const lineBreak = /\r\n|\r(?!$)|\n/g;
+			let consumed = 0;
+			while ((match = lineBreak.exec(buffer)) !== null) {
+				processLine(buffer.slice(consumed, match.index));
+				consumed = match.index + match[0].length;
+			}
+			buffer = buffer.slice(consumed);
+		}
+
+		if (signal?.aborted) {
+			throw new DOMException('Stream reading aborted', 'AbortError');
+		}
+
+		// Flush a final line terminated by a lone CR
+		buffer += decoder.decode();
+		if (buffer.endsWith('\r')) {
+			processLine(buffer.slice(0, -1));
+		}
+	} finally {
+		signal?.removeEventListener('abort', abort);
+		reader.releaseLock();
+	}
+}
+
 /**
  * Subscribe to progress updates for a task via Server-Sent Events
  *
@@ -45,9 +153,9 @@ export interface ProgressEvent {
  * Connection automatically closed on 'complete' event or error.
  *
  * Error Handling:
- * - EventSource.onerror: Network issues, server disconnect, or HTTP error
+ * - HTTP error or network failure: Reported through onError, stream closed
  * - JSON parse errors: Caught and logged, bad events are skipped
- * - Completion: EventSource is closed automatically to free resources
+ * - Completion: Stream is closed automatically to free resources
  *
  * Cleanup: Returns unsubscribe function for manual cleanup when component unmounts
  * or modal closes. MUST be called to prevent memory leaks.
@@ -55,7 +163,7 @@ export interface ProgressEvent {
  * @param taskId - Unique task identifier from backend
  * @param onProgress - Callback for progress and complete events
  * @param onError - Optional callback for connection errors
- * @returns Cleanup function to close EventSource
+ * @returns Cleanup function to close the stream
  *
  * @example
  * const unsubscribe = subscribeToProgress(
@@ -75,40 +183,48 @@ export interface ProgressEvent {
 export function subscribeToProgress(
 	taskId: string,
 	onProgress: (event: ProgressEvent) => void,
-	onError?: (error: Event) => void
+	onError?: (error: Error) => void
 ): () => void {
 	const url = `${API_BASE_URL}/api/v1/admin/reindex/${taskId}/progress`;
-	const eventSource = new EventSource(url);
+	const controller = new AbortController();
 
-	// Progress event: emitted on each article processed
-	eventSource.addEventListener('progress', (e: MessageEvent) => {
-		try {
-			const data = JSON.parse(e.data) as ProgressEvent;
-			onProgress(data);
-		} catch (parseError) {
-			console.error('Failed to parse progress event:', parseError);
-		}
-	});
+	const handleEvent = (e: ServerSentEvent) => {
+		// Progress event: emitted on each article processed
+		// Complete event: task finished successfully or with errors
+		if (e.event !== 'progress' && e.event !== 'complete') return;
 
-	// Complete event: task finished successfully or with errors
-	eventSource.addEventListener('complete', (e: MessageEvent) => {
 		try {
-			const data = JSON.parse(e.data) as ProgressEvent;
-			onProgress(data);
+			onProgress(JSON.parse(e.data) as ProgressEvent);
 		} catch (parseError) {
-			console.error('Failed to parse complete event:', parseError);
-		} finally {
-			eventSource.close(); // Close connection on completion
+			console.error(`Failed to parse ${e.event} event:`, parseError);
 		}
-	});
 
-	// Error event: network failure, server error, or connection lost
-	eventSource.onerror = (e: Event) => {
-		console.error('SSE connection error:', e);
-		onError?.(e);
-		eventSource.close(); // Close connection on error
+		if (e.event === 'complete') {
+			controller.abort(); // Close connection on completion
+		}
 	};
 
+	(async () => {
+		const response = await fetch(url, {
+			headers: { Accept: 'text/event-stream' },
+			signal: controller.signal
+		});
+		if (!response.ok || !response.body) {
+			throw new Error(response.statusText || `Progress stream failed (${response.status})`);
+		}
+		await readEventStream(response.body, handleEvent, controller.signal);
+		if (!controller.signal.aborted) {
+			throw new Error('Progress stream closed before the task completed');
+		}
+	})().catch((error: unknown) => {
+		if (controller.signal.aborted) return; // Closed by us, not an error
+
+		// Network failure, server error, or connection lost
+		console.error('SSE connection error:', error);
+		onError?.(error instanceof Error ? error : new Error('SSE connection error'));
+		controller.abort();
+	});
+
 	// Return cleanup function for manual unsubscribe
-	return () => eventSource.close();
+	return () => controller.abort();
 }
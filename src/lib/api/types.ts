@@ -1,120 +1,59 @@
 /**
- * API types for Session Management and Article Management
+ * API types for Session Management, Article Management, Chat and Search
  *
- * These types match the API contract defined in docs/api-contract.md
- * In production, these would be generated from OpenAPI spec using make gen-api
+ * These are aliases of the schemas in generated.ts (produced by make gen-api
+ * from the service's OpenAPI spec), so the contract has a single source of
+ * truth. Regenerating generated.ts surfaces contract changes as type errors.
  */
 
-export type SessionStatus = 'draft' | 'active' | 'completed' | 'archived';
+import type { components, operations } from './generated';
 
-export interface SessionResponse {
-	id: number;
-	name: string;
-	description: string | null;
-	status: SessionStatus;
-	article_count: number;
-	created_at: string; // ISO 8601
-	updated_at: string; // ISO 8601
-}
+type Schemas = components['schemas'];
 
-export interface SessionListResponse {
-	sessions: SessionResponse[];
-	total: number;
-}
-
-export interface CreateSessionRequest {
-	name: string;
-	description?: string | null;
-}
-
-export interface UpdateSessionRequest {
-	name?: string;
-	description?: string;
-}
-
-export interface ChangeStatusRequest {
-	status: SessionStatus;
-}
+// Session types
+export type SessionResponse = Schemas['SessionResponse'];
+export type SessionStatus = SessionResponse['status'];
+export type SessionListResponse = Schemas['SessionListResponse'];
+export type CreateSessionRequest = Schemas['CreateSessionRequest'];
+export type UpdateSessionRequest = Schemas['UpdateSessionRequest'];
+export type ChangeStatusRequest = Schemas['ChangeStatusRequest'];
 
 // Article types
-export type ArticleType = 'url' | 'file';
-export type ExtractionStatus = 'pending' | 'processing' | 'completed' | 'failed';
-
-export interface ArticleResponse {
-	id: number;
-	session_id: number;
-	type: ArticleType;
-	original_url: string | null;
-	original_filename: string | null;
-	title: string | null;
-	extraction_status: ExtractionStatus;
-	has_content: boolean;
-	created_at: string;
-	updated_at: string;
-}
-
-export interface ArticleListResponse {
-	items: ArticleResponse[];
-	total: number;
-	session_id: number;
-}
-
-export interface AddUrlRequest {
-	url: string;
-	title?: string | null;
-}
-
-export interface UploadFileResponse {
-	id: number;
-	filename: string;
-	size_bytes: number;
-	extraction_status: ExtractionStatus;
-	created_at: string;
-}
-
-export interface ArticleContentResponse {
-	id: number;
-	title: string | null;
-	content_text: string;
-	extraction_status: ExtractionStatus;
-	// Note: Backend has these fields in the model but doesn't currently return them
-	// in ArticleContentResponse. Future enhancement: update backend schema to include:
-	// word_count, reading_time_minutes, extraction_method, extraction_metadata
-}
+export type ArticleResponse = Schemas['ArticleResponse'];
+export type ArticleType = ArticleResponse['type'];
+export type ExtractionStatus = ArticleResponse['extraction_status'];
+export type ArticleListResponse = Schemas['ArticleListResponse'];
+export type AddUrlRequest = Schemas['AddUrlRequest'];
+export type UploadFileResponse = Schemas['UploadFileResponse'];
+export type ArticleContentResponse = Schemas['ArticleContentResponse'];
 
 // Chat types
-export interface ChatRequest {
-	message: string;
-}
-
-export interface ChatSource {
-	citation_index: number;
-	article_id: number;
-	chunk_id: string | null;
-	title: string | null;
-	url: string | null;
-	content: string | null;
-	relevance_score: number | null;
-	search_method: string | null;
-	dense_rank: number | null;
-	sparse_rank: number | null;
-}
-
-export interface ChatResponse {
-	message_id: number;
-	content: string;
-	sources: ChatSource[];
-	created_at: string;
-}
-
-export interface ChatMessageResponse {
-	id: number;
-	role: 'user' | 'assistant';
-	content: string;
-	sources: ChatSource[] | null;
-	created_at: string;
-}
+export type ChatRequest = Schemas['ChatRequest'];
+export type ChatSource = Schemas['ChatSource'];
+export type RetrievalMetadata = Schemas['RetrievalMetadata'];
+export type ChatResponse = Schemas['ChatResponse'];
+export type ChatMessageResponse = Schemas['ChatMessageResponse'];
+export type ChatHistoryResponse = Schemas['ChatHistoryResponse'];
+
+// Search types
+export type SearchMode = Schemas['SearchMode'];
+export type SearchRequest = Schemas['SearchRequest'];
+export type SearchResult = Schemas['SearchResult'];
+export type SearchResponse = Schemas['SearchResponse'];
 
-export interface ChatHistoryResponse {
-	messages: ChatMessageResponse[];
-}
+/**
+ * Search index statistics for a session
+ *
+ * The service declares this response as an open map, so keys are read
+ * defensively, e.g. `total_chunks`.
+ */
+export type SearchStats =
+	operations['search_stats_api_v1_sessions__session_id__search_stats_get']['responses'][200]['content']['application/json'];
+
+// Admin types
+export type ReindexResponse = Schemas['ReindexResponse'];
+export type AdminReindexResponse = Schemas['AdminReindexResponse'];
+export type TaskStatusResponse = Schemas['TaskStatusResponse'];
+export type ProviderConfigResponse = Schemas['ProviderConfigResponse'];
+export type UpdateEmbeddingProviderResponse = Schemas['UpdateEmbeddingProviderResponse'];
+export type UpdateLlmProviderResponse = Schemas['UpdateLlmProviderResponse'];
@@ -0,0 +1,119 @@
+/**
+ * Client-side filtering and sorting for the article list
+ *
+ * Filters round-trip through the URL query (`q`, `type`, `status`, `sort`,
+ * `dir`) so a filtered view survives reloads and can be shared. Defaults are
+ * left out of the query to keep URLs short, and unknown values fall back to
+ * the default rather than hiding every article.
+ */
+
+import { getArticleTitle } from '$lib/api/articles';
+import type { ArticleResponse, ArticleType, ExtractionStatus } from '$lib/api/types';
+
+export type ArticleSortKey = 'created' | 'title' | 'status';
+export type SortDirection = 'asc' | 'desc';
+
+export interface ArticleFilters {
+	/** Matched against title, URL and file name, case-insensitively */
+	query: string;
+	type: ArticleType | 'all';
+	status: ExtractionStatus | 'all';
+	sort: ArticleSortKey;
+	direction: SortDirection;
+}
+
+export const DEFAULT_ARTICLE_FILTERS: ArticleFilters = {
+	query: '',
+	type: 'all',
+	status: 'all',
+	sort: 'created',
+	direction: 'desc'
+};
+
+const TYPES: ArticleType[] = ['url', 'file'];
+const STATUSES: ExtractionStatus[] = ['pending', 'processing', 'completed', 'failed'];
+const SORT_KEYS: ArticleSortKey[] = ['created', 'title', 'status'];
+
+// Ascending status order puts articles that need attention first
+const STATUS_ORDER: Record<ExtractionStatus, number> = {
+	failed: 0,
+	processing: 1,
+	pending: 2,
+	completed: 3
+};
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+	return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+export function filtersFromSearchParams(params: URLSearchParams): ArticleFilters {
+	const defaults = DEFAULT_ARTICLE_FILTERS;
+	return {
+		query: params.get('q') ?? defaults.query,
+		type: oneOf(params.get('type'), ['all', ...TYPES], defaults.type),
+		status: oneOf(params.get('status'), ['all', ...STATUSES], defaults.status),
+		sort: oneOf(params.get('sort'), SORT_KEYS, defaults.sort),
+		direction: oneOf(params.get('dir'), ['asc', 'desc'], defaults.direction)
+	};
+}
+
+/**
+ * Query parameters for the filters; null for those at their default
+ */
+export function filtersToQuery(filters: ArticleFilters): Record<string, string | null> {
+	const defaults = DEFAULT_ARTICLE_FILTERS;
+	const entries: [string, string, string][] = [
+		['q', filters.query.trim(), defaults.query],
+		['type', filters.type, defaults.type],
+		['status', filters.status, defaults.status],
+		['sort', filters.sort, defaults.sort],
+		['dir', filters.direction, defaults.direction]
+	];
+	return Object.fromEntries(
+		entries.map(([key, value, fallback]) => [key, value === fallback ? null : value])
+	);
+}
+
+export function hasActiveFilters(filters: ArticleFilters): boolean {
+	return (
+		filters.query.trim() !== '' ||
+		filters.type !== DEFAULT_ARTICLE_FILTERS.type ||
+		filters.status !== DEFAULT_ARTICLE_FILTERS.status
+	);
+}
+
+function compareArticles(a: ArticleResponse, b: ArticleResponse, sort: ArticleSortKey): number {
+	switch (sort) {
+		case 'created':
+			return a.created_at.localeCompare(b.created_at);
+		case 'title':
+			return getArticleTitle(a).toLowerCase().localeCompare(getArticleTitle(b).toLowerCase());
+		case 'status':
+			return STATUS_ORDER[a.extraction_status] - STATUS_ORDER[b.extraction_status];
+	}
+}
+
+/**
+ * Articles matching the filters, in the requested order
+ *
+ * Ties keep the service's order, so e.g. articles with the same status stay
+ * in creation order.
+ */
+export function applyArticleFilters(
+	articles: ArticleResponse[],
+	filters: ArticleFilters
+): ArticleResponse[] {
+	const query = filters.query.trim().toLowerCase();
+	const sign = filters.direction === 'asc' ? 1 : -1;
+
+	return articles
+		.filter((article) => {
+			if (filters.type !== 'all' && article.type !== filters.type) return false;
+			if (filters.status !== 'all' && article.extraction_status !== filters.status) return false;
+			if (!query) return true;
+			return [article.title, article.original_url, article.original_filename].some((field) =>
+				field?.toLowerCase().includes(query)
+			);
+		})
+		.sort((a, b) => sign * compareArticles(a, b, filters.sort));
+}
@@ -0,0 +1,108 @@
+/**
+ * Branching conversations
+ *
+ * Editing a question or regenerating an answer adds a sibling instead of
+ * overwriting, so a conversation is a tree: each message points at the
+ * message it follows (parent_id, null for the first). The view shows one
+ * path through it, picking one child at each branch point; by default the
+ * newest, so a fresh edit or regeneration is what you see.
+ *
+ * Histories from services without branching have no parent_id; each
+ * message then follows the one before it, which is a tree with no branches.
+ */
+
+import type { ChatMessageResponse } from '$lib/api/types';
+
+export interface BranchedMessage {
+	id: number;
+	parent_id: number | null;
+}
+
+/**
+ * Add parent_id to history messages that don't carry one
+ */
+export function withParents<T extends ChatMessageResponse>(messages: T[]): (T & BranchedMessage)[] {
+	return messages.map((message, index) => {
+		const parentId = (message as { parent_id?: number | null }).parent_id;
+		return {
+			...message,
+			parent_id: parentId !== undefined ? parentId : (messages[index - 1]?.id ?? null)
+		};
+	});
+}
+
+export interface PathEntry<T> {
+	message: T;
+	/** Alternatives at this point, including the message itself, oldest first */
+	siblings: T[];
+	/** Position among the siblings, from 0 */
+	index: number;
+}
+
+/**
+ * The messages currently shown, from the first to the newest
+ *
+ * @param selected - Chosen child per parent id (null for the first
+ *   message); parents without a choice show their newest child
+ */
+export function activePath<T extends BranchedMessage>(
+	messages: T[],
+	selected: ReadonlyMap<number | null, number>
+): PathEntry<T>[] {
+	const children = new Map<number | null, T[]>();
+	for (const message of messages) {
+		const list = children.get(message.parent_id);
+		if (list) {
+			list.push(message);
+		} else {
+			children.set(message.parent_id, [message]);
+		}
+	}
+
+	const path: PathEntry<T>[] = [];
+	const visited = new Set<number>();
+	let parentId: number | null = null;
+
+	for (;;) {
+		const siblings = children.get(parentId);
+		if (!siblings) break;
+
+		const chosen = selected.get(parentId);
+		let index = siblings.findIndex((m) => m.id === chosen);
+		if (index === -1) index = siblings.length - 1;
+
+		const message = siblings[index];
+		// A malformed history could loop back on itself
+		if (visited.has(message.id)) break;
+		visited.add(message.id);
+
+		path.push({ message, siblings, index });
+		parentId = message.id;
+	}
+
+	return path;
+}
+
+/**
+ * Nearest message at or above `id` that the service has stored
+ *
+ * Optimistic messages keep a temporary id until the service confirms them,
+ * and stay unsaved if it never does (a stopped answer, or a question from a
+ * service that doesn't report its id). Those ids must not be sent back, so
+ * a follow-up hangs off the closest saved message instead.
+ */
+export function savedAncestorId<T extends BranchedMessage & { unsaved?: boolean }>(
+	messages: T[],
+	id: number | null
+): number | null {
+	const visited = new Set<number>();
+	let current = id;
+	while (current !== null && !visited.has(current)) {
+		visited.add(current);
+		const message = messages.find((m) => m.id === current);
+		if (!message) return null;
+		if (!message.unsaved) return message.id;
+		current = message.parent_id;
+	}
+	return null;
+}
@@ -0,0 +1,293 @@
+/**
+ * Export formatting and browser downloads
+ *
+ * Session exports come in three shapes:
+ * - Markdown notes: article list and chat transcript, with each answer's
+ *   citations as footnotes (see transcript.ts)
+ * - JSON: the full SessionExportDocument, including extracted content
+ * - Bundle: a zip holding the JSON document (BUNDLE_MANIFEST), which is what
+ *   an import reads, plus the notes and one Markdown file per article for
+ *   people browsing the archive
+ *
+ * readExportFile reads the JSON or bundle form back for an import.
+ */
+
+import { getArticleTitle } from '$lib/api/articles';
+import type { SessionExportEntry } from '$lib/api/admin';
+import type { ArticleResponse, ChatMessageResponse } from '$lib/api/types';
+import { activePath, withParents } from './chatBranches';
+import { chatToMarkdown, markdownLinkText } from './transcript';
+import { createZip, readZip, type ZipEntry } from './zip';
+
+export const EXPORT_FORMAT = 'article-mind-session';
+export const EXPORT_VERSION = 1;
+
+/** Path of the JSON document inside a bundle */
+export const BUNDLE_MANIFEST = 'article-mind.json';
+
+/**
+ * An article with its extracted text, if any
+ */
+export interface ArticleExport {
+	article: ArticleResponse;
+	content: string | null;
+}
+
+export interface SessionExportDocument {
+	format: typeof EXPORT_FORMAT;
+	version: number;
+	/** ISO timestamp */
+	exported_at: string;
+	sessions: SessionExportEntry[];
+}
+
+export function slugify(text: string): string {
+	return (
+		text
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '')
+			.slice(0, 60) || 'export'
+	);
+}
+
+function articleSource(article: ArticleResponse): string {
+	return article.type === 'url' && article.original_url
+		? `Source: <${article.original_url}>`
+		: `File: ${article.original_filename ?? 'unknown'}`;
+}
+
+function articleSection({ article, content }: ArticleExport, level: string): string {
+	const body = content?.trim() || '_No extracted content._';
+	return `${level} ${getArticleTitle(article)}\n\n${articleSource(article)}\n\n${body}\n`;
+}
+
+/**
+ * Markdown document with one section per article
+ */
+export function articlesToMarkdown(items: ArticleExport[], heading: string): string {
+	const sections = items.map((item) => articleSection(item, '##'));
+	return `# ${heading}\n\n${sections.join('\n---\n\n')}`;
+}
+
+/**
+ * Research notes for a session: details, article list and chat transcript
+ *
+ * Where questions were edited or answers regenerated, the transcript follows
+ * the newest alternative at each point, as the chat shows by default. The
+ * JSON export keeps every message. Threads follow the main conversation,
+ * each under its own heading.
+ */
+export function sessionToMarkdown(
+	entry: SessionExportEntry,
+	exportedAt: Date = new Date()
+): string {
+	const { session, articles } = entry;
+	const threads = entry.threads ?? [];
+	const transcript = (messages: ChatMessageResponse[], level: string, footnotePrefix = '') => {
+		const shown = activePath(withParents(messages), new Map()).map((e) => e.message);
+		return shown.length > 0
+			? chatToMarkdown(
+					shown,
+					level,
+					articles.map((item) => item.article),
+					footnotePrefix
+				)
+			: '_No chat messages._';
+	};
+	const lines: string[] = [`# ${session.name}`, ''];
+
+	if (session.description) {
+		lines.push(session.description, '');
+	}
+	lines.push(
+		`- Status: ${session.status}`,
+		`- Articles: ${articles.length}`,
+		`- Exported: ${exportedAt.toISOString()}`,
+		'',
+		'## Articles',
+		''
+	);
+
+	if (articles.length === 0) {
+		lines.push('_No articles._');
+	}
+	articles.forEach(({ article }, index) => {
+		const title = markdownLinkText(getArticleTitle(article));
+		lines.push(
+			article.type === 'url' && article.original_url
+				? `${index + 1}. [${title}](${article.original_url})`
+				: `${index + 1}. ${title} (file: ${article.original_filename ?? 'unknown'})`
+		);
+	});
+
+	if (threads.length === 0) {
+		lines.push('', '## Chat Transcript', '', transcript(entry.messages, '###'));
+	} else {
+		lines.push('', '## Chat Transcript: General', '', transcript(entry.messages, '###'));
+		for (const { thread, messages } of threads) {
+			const archived = thread.archived ? ' (archived)' : '';
+			lines.push(
+				'',
+				`## Chat Transcript: ${thread.title}${archived}`,
+				'',
+				transcript(messages, '###', `t${thread.id}-`)
+			);
+		}
+	}
+
+	return `${lines.join('\n').trimEnd()}\n`;
+}
+
+export function createExportDocument(
+	sessions: SessionExportEntry[],
+	exportedAt: Date = new Date()
+): SessionExportDocument {
+	return {
+		format: EXPORT_FORMAT,
+		version: EXPORT_VERSION,
+		exported_at: exportedAt.toISOString(),
+		sessions
+	};
+}
+
+/**
+ * Zip bundle that another instance can import
+ */
+export function createSessionBundle(document: SessionExportDocument): Uint8Array<ArrayBuffer> {
+	const exportedAt = new Date(document.exported_at);
+	const entries: ZipEntry[] = [{ name: BUNDLE_MANIFEST, data: JSON.stringify(document, null, 2) }];
+
+	for (const entry of document.sessions) {
+		const folder = `${entry.session.id}-${slugify(entry.session.name)}`;
+		entries.push({ name: `${folder}/notes.md`, data: sessionToMarkdown(entry, exportedAt) });
+		for (const item of entry.articles) {
+			const name = `${item.article.id}-${slugify(getArticleTitle(item.article))}.md`;
+			entries.push({ name: `${folder}/articles/${name}`, data: articleSection(item, '#') });
+		}
+	}
+
+	return createZip(entries, exportedAt);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that parsed JSON is an export document this version can import
+ *
+ * Only the shape an import relies on is checked; unknown fields are kept.
+ */
+export function parseExportDocument(value: unknown): SessionExportDocument {
+	if (!isRecord(value) || value.format !== EXPORT_FORMAT) {
+		throw new Error('This file is not an Article Mind session export.');
+	}
+	if (typeof value.version !== 'number' || value.version > EXPORT_VERSION) {
+		throw new Error('This export was made by a newer version of Article Mind.');
+	}
+
+	const sessions = Array.isArray(value.sessions) ? value.sessions : null;
+	const valid = sessions?.every(
+		(entry) =>
+			isRecord(entry) &&
+			isRecord(entry.session) &&
+			typeof entry.session.name === 'string' &&
+			Array.isArray(entry.articles) &&
+			entry.articles.every((item) => isRecord(item) && isRecord(item.article)) &&
+			Array.isArray(entry.messages)
+	);
+	if (!valid) {
+		throw new Error('The export is incomplete or damaged.');
+	}
+
+	return value as unknown as SessionExportDocument;
+}
+
+/**
+ * Read an export document from a .json file or a .zip bundle
+ */
+export async function readExportFile(file: File): Promise<SessionExportDocument> {
+	const bytes = new Uint8Array(await file.arrayBuffer());
+	let text: string;
+
+	// Zip archives start with "PK"
+	if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+		const entries = await readZip(bytes);
+		// Re-zipped bundles may have the files inside a folder
+		const manifest = entries.find(
+			(entry) => entry.name === BUNDLE_MANIFEST || entry.name.endsWith(`/${BUNDLE_MANIFEST}`)
+		);
+		if (!manifest) {
+			throw new Error(`The bundle has no ${BUNDLE_MANIFEST}.`);
+		}
+		text =
+			typeof manifest.data === 'string' ? manifest.data : new TextDecoder().decode(manifest.data);
+	} else {
+		text = new TextDecoder().decode(bytes);
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		throw new Error('The file could not be read as JSON.');
+	}
+	return parseExportDocument(parsed);
+}
+
+/**
+ * First of "Name", "Name (2)", "Name (3)"... not among the taken names
+ *
+ * Names are compared ignoring case and surrounding spaces.
+ */
+export function uniqueSessionName(name: string, taken: Iterable<string>): string {
+	const normalized = new Set([...taken].map((n) => n.trim().toLowerCase()));
+	const base = name.trim();
+	let candidate = base;
+	for (let n = 2; normalized.has(candidate.toLowerCase()); n++) {
+		candidate = `${base} (${n})`;
+	}
+	return candidate;
+}
+
+/**
+ * File name from a title and today's date, e.g. "ml-papers-2026-01-20.md"
+ */
+export function exportFileName(title: string, extension: string, date: Date = new Date()): string {
+	return `${slugify(title)}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+/**
+ * Open the browser's print dialog for an HTML document, e.g. to save a PDF
+ *
+ * Prints from a hidden iframe, so popup blockers don't interfere and the
+ * current page is left alone.
+ */
+export function printHtml(html: string): void {
+	const frame = document.createElement('iframe');
+	frame.style.position = 'fixed';
+	frame.style.width = '0';
+	frame.style.height = '0';
+	frame.style.border = '0';
+	frame.srcdoc = html;
+	frame.addEventListener('load', () => {
+		frame.contentWindow?.print();
+		// print() blocks until the dialog closes in most browsers
+		setTimeout(() => frame.remove(), 1000);
+	});
+	document.body.appendChild(frame);
+}
+
+/**
+ * Save content as a file through a temporary object URL
+ */
+export function downloadFile(content: BlobPart, fileName: string, type: string): void {
+	const url = URL.createObjectURL(new Blob([content], { type }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	// Firefox and Safari cancel the download if the URL is revoked right away
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
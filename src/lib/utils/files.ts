@@ -0,0 +1,153 @@
+/**
+ * File selection helpers for article uploads
+ */
+
+export const ALLOWED_UPLOAD_TYPES = [
+	'application/pdf',
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+	'application/msword',
+	'text/plain',
+	'text/markdown',
+	'text/html'
+];
+
+export const ALLOWED_UPLOAD_EXTENSIONS = ['.pdf', '.docx', '.doc', '.txt', '.md', '.html', '.htm'];
+
+/**
+ * A file picked for upload, with its path inside a dropped folder if any
+ */
+export interface SelectedFile {
+	file: File;
+	/** e.g. "papers/2024/attention.pdf"; just the file name for loose files */
+	path: string;
+}
+
+export interface RejectedFile {
+	path: string;
+	reason: string;
+}
+
+/**
+ * Lower-cased extension including the dot, or '' if the name has none
+ */
+export function getExtension(name: string): string {
+	const dot = name.lastIndexOf('.');
+	return dot > 0 ? name.slice(dot).toLowerCase() : '';
+}
+
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Wrap pasted text as a .txt file so it can go through the upload endpoint
+ *
+ * The title becomes the file name, with characters that aren't allowed in
+ * file names replaced.
+ */
+export function fileFromText(text: string, title: string): File {
+	const name = title.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'pasted-text';
+	return new File([text], `${name}.txt`, { type: 'text/plain' });
+}
+
+/**
+ * Split a selection into uploadable files and rejections with a reason
+ *
+ * A file is accepted if its extension or MIME type is allowed. Empty files
+ * are rejected since they can't be extracted; size limits are left to the
+ * service, which answers oversized uploads with 413.
+ */
+export function partitionFiles(files: SelectedFile[]): {
+	accepted: SelectedFile[];
+	rejected: RejectedFile[];
+} {
+	const accepted: SelectedFile[] = [];
+	const rejected: RejectedFile[] = [];
+
+	for (const selected of files) {
+		const { file, path } = selected;
+		const extension = getExtension(file.name);
+
+		if (
+			!ALLOWED_UPLOAD_EXTENSIONS.includes(extension) &&
+			!ALLOWED_UPLOAD_TYPES.includes(file.type)
+		) {
+			rejected.push({ path, reason: `Unsupported file type${extension ? ` (${extension})` : ''}` });
+		} else if (file.size === 0) {
+			rejected.push({ path, reason: 'File is empty' });
+		} else {
+			accepted.push(selected);
+		}
+	}
+
+	return { accepted, rejected };
+}
+
+/**
+ * Files from an <input type="file">, including `webkitdirectory` folder picks
+ */
+export function filesFromInput(files: FileList | null): SelectedFile[] {
+	return Array.from(files ?? []).map((file) => ({
+		file,
+		path: file.webkitRelativePath || file.name
+	}));
+}
+
+/**
+ * Files from a drop event, walking into any dropped folders
+ *
+ * Hidden files (e.g. .DS_Store) inside folders are skipped. Falls back to
+ * `dataTransfer.files` when the browser doesn't support directory entries.
+ */
+export async function filesFromDrop(dataTransfer: DataTransfer): Promise<SelectedFile[]> {
+	const entries = Array.from(dataTransfer.items ?? [])
+		.filter((item) => item.kind === 'file')
+		.map((item) => item.webkitGetAsEntry?.())
+		.filter((entry): entry is FileSystemEntry => !!entry);
+
+	if (entries.length === 0) {
+		return filesFromInput(dataTransfer.files);
+	}
+
+	const nested = await Promise.all(entries.map((entry) => readEntry(entry, '')));
+	return nested.flat();
+}
+
+async function readEntry(entry: FileSystemEntry, parentPath: string): Promise<SelectedFile[]> {
+	const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+	if (entry.isFile) {
+		const file = await new Promise<File>((resolve, reject) =>
+			(entry as FileSystemFileEntry).file(resolve, reject)
+		);
+		return [{ file, path }];
+	}
+
+	if (entry.isDirectory) {
+		const children = await readDirectory(entry as FileSystemDirectoryEntry);
+		const nested = await Promise.all(
+			children.filter((child) => !child.name.startsWith('.')).map((child) => readEntry(child, path))
+		);
+		return nested.flat();
+	}
+
+	return [];
+}
+
+/**
+ * Read every entry of a directory; readEntries() returns them in batches
+ */
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+	const reader = directory.createReader();
+	const entries: FileSystemEntry[] = [];
+
+	for (;;) {
+		const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+			reader.readEntries(resolve, reject)
+		);
+		if (batch.length === 0) return entries;
+		entries.push(...batch);
+	}
+}
@@ -0,0 +1,161 @@
+/**
+ * Lightweight syntax highlighting for code blocks in answers
+ *
+ * Splits code into tokens (comments, strings, numbers, keywords) with one
+ * regex per language family. It's not a full lexer; it only has to make
+ * snippets in chat answers easier to scan. Tokens are rendered as text, so
+ * highlighting never introduces markup from the code itself.
+ */
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal';
+
+export interface CodeToken {
+	text: string;
+	kind: TokenKind;
+}
+
+interface LanguageRules {
+	comment: RegExp;
+	keywords: Set<string>;
+	literals: Set<string>;
+}
+
+const C_COMMENTS = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/;
+const HASH_COMMENTS = /#[^\n]*/;
+const SQL_COMMENTS = /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/;
+
+const JS_KEYWORDS =
+	'async await break case catch class const continue default delete do else enum export extends finally for from function if implements import in instanceof interface let new of private protected public readonly return static super switch this throw try type typeof var void while yield';
+
+const LANGUAGES: Record<string, LanguageRules> = {
+	javascript: {
+		comment: C_COMMENTS,
+		keywords: new Set(JS_KEYWORDS.split(' ')),
+		literals: new Set(['true', 'false', 'null', 'undefined', 'NaN'])
+	},
+	python: {
+		comment: HASH_COMMENTS,
+		keywords: new Set(
+			'and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield'.split(
+				' '
+			)
+		),
+		literals: new Set(['True', 'False', 'None', 'self'])
+	},
+	shell: {
+		comment: HASH_COMMENTS,
+		keywords: new Set(
+			'if then else elif fi for while do done case esac in function return export local echo cd sudo'.split(
+				' '
+			)
+		),
+		literals: new Set(['true', 'false'])
+	},
+	sql: {
+		comment: SQL_COMMENTS,
+		keywords: new Set(
+			'select from where and or not insert into values update set delete create table drop alter index join left right inner outer on group by order having limit offset as distinct union all with returning primary key references'.split(
+				' '
+			)
+		),
+		literals: new Set(['null', 'true', 'false'])
+	},
+	c: {
+		comment: C_COMMENTS,
+		keywords: new Set(
+			'break case catch class const continue default do else enum extends final finally for func go if impl import interface let match mod mut new package private protected pub public return static struct switch throw throws try use var void while fn'.split(
+				' '
+			)
+		),
+		literals: new Set(['true', 'false', 'null', 'nil', 'None', 'self'])
+	},
+	json: {
+		comment: C_COMMENTS,
+		keywords: new Set(),
+		literals: new Set(['true', 'false', 'null'])
+	}
+};
+
+const ALIASES: Record<string, string> = {
+	js: 'javascript',
+	jsx: 'javascript',
+	ts: 'javascript',
+	tsx: 'javascript',
+	typescript: 'javascript',
+	svelte: 'javascript',
+	py: 'python',
+	sh: 'shell',
+	bash: 'shell',
+	zsh: 'shell',
+	console: 'shell',
+	java: 'c',
+	cpp: 'c',
+	'c++': 'c',
+	cs: 'c',
+	csharp: 'c',
+	go: 'c',
+	rust: 'c',
+	rs: 'c',
+	kotlin: 'c',
+	swift: 'c'
+};
+
+const STRINGS = /"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|`(?:[^`\\]|\\[\s\S])*`?/;
+const NUMBERS = /\b\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?\b|\b0x[\da-f]+\b/i;
+const WORDS = /[A-Za-z_$][\w$]*/;
+
+/**
+ * Rules for a fence's language tag, or null if it isn't recognised
+ */
+function rulesFor(language: string): LanguageRules | null {
+	const name = ALIASES[language.toLowerCase()] ?? language.toLowerCase();
+	return LANGUAGES[name] ?? null;
+}
+
+/**
+ * Split code into highlighted tokens
+ *
+ * Unknown languages come back as a single plain token.
+ */
+export function highlightCode(code: string, language: string): CodeToken[] {
+	const rules = rulesFor(language);
+	if (!rules) return [{ text: code, kind: 'plain' }];
+
+	const pattern = new RegExp(
+		[rules.comment, STRINGS, NUMBERS, WORDS].map((r) => `(${r.source})`).join('|'),
+		'gi'
+	);
+	// SQL keywords are case-insensitive; elsewhere case matters
+	const caseInsensitive = rules === LANGUAGES.sql;
+	const tokens: CodeToken[] = [];
+	let last = 0;
+
+	const push = (text: string, kind: TokenKind) => {
+		const previous = tokens[tokens.length - 1];
+		if (previous?.kind === kind) {
+			previous.text += text;
+		} else {
+			tokens.push({ text, kind });
+		}
+	};
+
+	for (const match of code.matchAll(pattern)) {
+		if (match[0] === '') continue;
+		if (match.index > last) push(code.slice(last, match.index), 'plain');
+
+		const [text, comment, string, number] = match;
+		const word = caseInsensitive ? text.toLowerCase() : text;
+		let kind: TokenKind = 'plain';
+		if (comment) kind = 'comment';
+		else if (string) kind = 'string';
+		else if (number) kind = 'number';
+		else if (rules.keywords.has(word)) kind = 'keyword';
+		else if (rules.literals.has(word)) kind = 'literal';
+
+		push(text, kind);
+		last = match.index + text.length;
+	}
+	if (last < code.length) push(code.slice(last), 'plain');
+
+	return tokens;
+}
@@ -0,0 +1,427 @@
+/**
+ * Markdown parsing for assistant answers
+ *
+ * Design Decision: Parse to a syntax tree, render with Svelte templates
+ *
+ * Rationale: Model output is untrusted. Instead of producing an HTML string
+ * and sanitizing it, the parser returns plain data that MarkdownContent
+ * renders as text nodes and a fixed set of elements, so raw HTML in the
+ * answer can only ever show up as text. Links are kept only for web and
+ * mail URLs (see safeHref).
+ *
+ * Covers what LLMs produce in practice: headings, paragraphs, bullet and
+ * numbered lists (nested), block quotes, fenced code, GFM tables, rules, and
+ * inline emphasis, code, links and `[n]` citation markers. Raw HTML,
+ * reference links, images and setext headings aren't supported; they stay
+ * as text.
+ */
+
+export type Inline =
+	| { type: 'text'; text: string }
+	| { type: 'strong' | 'em' | 'del'; children: Inline[] }
+	| { type: 'code'; text: string }
+	| { type: 'link'; href: string; children: Inline[] }
+	| { type: 'citation'; index: number; text: string }
+	| { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type Block =
+	| { type: 'paragraph'; children: Inline[] }
+	| { type: 'heading'; level: number; children: Inline[] }
+	| { type: 'code'; language: string; text: string }
+	| { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+	| { type: 'blockquote'; children: Block[] }
+	| { type: 'table'; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+	| { type: 'rule' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Link target if it's safe to follow, otherwise null
+ *
+ * Only http(s) and mailto URLs pass; javascript:, data: and relative URLs
+ * are dropped.
+ */
+export function safeHref(url: string): string | null {
+	const trimmed = url.trim();
+	return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Parse Markdown text into blocks
+ */
+export function parseMarkdown(text: string): Block[] {
+	return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+	return lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]);
+}
+
+// Lines that end a paragraph without a blank line in between
+function startsBlock(lines: string[], i: number): boolean {
+	const line = lines[i];
+	return (
+		FENCE.test(line) ||
+		HEADING.test(line) ||
+		RULE.test(line) ||
+		QUOTE.test(line) ||
+		LIST_ITEM.test(line) ||
+		isTableStart(lines, i)
+	);
+}
+
+function indentOf(line: string): number {
+	return line.match(/^ */)![0].length;
+}
+
+function parseBlocks(lines: string[]): Block[] {
+	const blocks: Block[] = [];
+	let i = 0;
+
+	while (i < lines.length) {
+		const line = lines[i];
+
+		if (line.trim() === '') {
+			i++;
+			continue;
+		}
+
+		const fence = line.match(FENCE);
+		if (fence) {
+			const marker = fence[1];
+			const indent = indentOf(line);
+			const code: string[] = [];
+			i++;
+			// An unclosed fence (e.g. while streaming) runs to the end
+			while (i < lines.length && !isClosingFence(lines[i], marker)) {
+				code.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))));
+				i++;
+			}
+			i++;
+			blocks.push({ type: 'code', language: fence[2].toLowerCase(), text: code.join('\n') });
+			continue;
+		}
+
+		const heading = line.match(HEADING);
+		if (heading) {
+			blocks.push({
+				type: 'heading',
+				level: heading[1].length,
+				children: parseInline(heading[2] ?? '')
+			});
+			i++;
+			continue;
+		}
+
+		// Before lists, since "- - -" and "* * *" are rules
+		if (RULE.test(line)) {
+			blocks.push({ type: 'rule' });
+			i++;
+			continue;
+		}
+
+		if (QUOTE.test(line)) {
+			const quoted: string[] = [];
+			while (i < lines.length && QUOTE.test(lines[i])) {
+				quoted.push(lines[i].replace(QUOTE, ''));
+				i++;
+			}
+			blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+			continue;
+		}
+
+		if (LIST_ITEM.test(line)) {
+			i = parseList(lines, i, blocks);
+			continue;
+		}
+
+		if (isTableStart(lines, i)) {
+			i = parseTable(lines, i, blocks);
+			continue;
+		}
+
+		const paragraph: string[] = [line.trim()];
+		i++;
+		while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines, i)) {
+			paragraph.push(lines[i].trim());
+			i++;
+		}
+		blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+	}
+
+	return blocks;
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+	const trimmed = line.trim();
+	return (
+		trimmed.length >= marker.length &&
+		trimmed[0] === marker[0] &&
+		new RegExp(`^\\${marker[0]}+$`).test(trimmed)
+	);
+}
+
+/**
+ * Parse a list starting at `start`; returns the index after it
+ */
+function parseList(lines: string[], start: number, blocks: Block[]): number {
+	const first = lines[start].match(LIST_ITEM)!;
+	const ordered = /\d/.test(first[2]);
+	const items: Block[][] = [];
+	let i = start;
+
+	while (i < lines.length) {
+		const match = lines[i].match(LIST_ITEM);
+		if (!match || /\d/.test(match[2]) !== ordered) break;
+
+		// Continuation lines are indented to where the item's text starts
+		const contentIndent = match[1].length + match[2].length + Math.min(match[3].length, 4);
+		const content: string[] = [lines[i].slice(match[0].length)];
+		i++;
+
+		while (i < lines.length) {
+			const line = lines[i];
+			if (line.trim() === '') {
+				// A blank line continues the item only if indented content follows
+				const next = lines.slice(i + 1).find((l) => l.trim() !== '');
+				if (next === undefined || indentOf(next) < contentIndent) break;
+				content.push('');
+				i++;
+				continue;
+			}
+			const indent = indentOf(line);
+			if (indent >= contentIndent) {
+				content.push(line.slice(contentIndent));
+			} else if (content[content.length - 1] !== '' && !startsBlock(lines, i)) {
+				// Lazy continuation of the item's paragraph
+				content.push(line.trim());
+			} else {
+				break;
+			}
+			i++;
+		}
+
+		items.push(parseBlocks(content));
+
+		// Blank lines between items keep the list going
+		let next = i;
+		while (next < lines.length && lines[next].trim() === '') next++;
+		const sibling = next < lines.length ? lines[next].match(LIST_ITEM) : null;
+		if (!sibling || /\d/.test(sibling[2]) !== ordered) break;
+		i = next;
+	}
+
+	blocks.push({
+		type: 'list',
+		ordered,
+		start: ordered ? parseInt(first[2], 10) : 1,
+		items
+	});
+	return i;
+}
+
+function splitRow(line: string): string[] {
+	const cells = line
+		.trim()
+		.replace(/^\|/, '')
+		.replace(/(?<!\\)\|$/, '')
+		.split(/(?<!\\)\|/);
+	return cells.map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Parse a table starting at `start`; returns the index after it
+ */
+function parseTable(lines: string[], start: number, blocks: Block[]): number {
+	const header = splitRow(lines[start]);
+	const align = splitRow(lines[start + 1]).map((cell): TableAlign => {
+		const left = cell.startsWith(':');
+		const right = cell.endsWith(':');
+		return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+	});
+
+	const rows: Inline[][][] = [];
+	let i = start + 2;
+	while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+		const cells = splitRow(lines[i]);
+		// Rows are padded or cut to the header's width
+		rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+		i++;
+	}
+
+	blocks.push({
+		type: 'table',
+		align: header.map((_, column) => align[column] ?? null),
+		header: header.map((cell) => parseInline(cell)),
+		rows
+	});
+	return i;
+}
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+const CITATION = /^\[(\d+)\]/;
+const LINK = /^\[([^\]]*)\]\(\s*<?([^\s)>]*)>?(?:\s+"[^"]*")?\s*\)/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s>]+)>/;
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]*_~]/;
+
+/**
+ * Parse inline Markdown: emphasis, code, links and citation markers
+ */
+export function parseInline(text: string): Inline[] {
+	const nodes: Inline[] = [];
+	let buffer = '';
+	let i = 0;
+
+	const flush = () => {
+		if (buffer) {
+			nodes.push({ type: 'text', text: buffer });
+			buffer = '';
+		}
+	};
+
+	while (i < text.length) {
+		const char = text[i];
+		const rest = text.slice(i);
+
+		if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+			buffer += text[i + 1];
+			i += 2;
+			continue;
+		}
+
+		if (char === '\n') {
+			flush();
+			nodes.push({ type: 'break' });
+			i++;
+			continue;
+		}
+
+		if (char === '`') {
+			const ticks = rest.match(/^`+/)![0];
+			const end = text.indexOf(ticks, i + ticks.length);
+			if (end !== -1) {
+				flush();
+				const code = text.slice(i + ticks.length, end).replace(/\n/g, ' ');
+				const trimmed = /^ .* $/.test(code) && code.trim() !== '' ? code.slice(1, -1) : code;
+				nodes.push({ type: 'code', text: trimmed });
+				i = end + ticks.length;
+				continue;
+			}
+			buffer += ticks;
+			i += ticks.length;
+			continue;
+		}
+
+		if (char === '[') {
+			const link = rest.match(LINK);
+			if (link) {
+				const href = safeHref(link[2]);
+				flush();
+				if (href) {
+					nodes.push({ type: 'link', href, children: parseInline(link[1]) });
+				} else {
+					// Unsafe or relative target: keep the label only
+					nodes.push(...parseInline(link[1]));
+				}
+				i += link[0].length;
+				continue;
+			}
+			const citation = rest.match(CITATION);
+			if (citation) {
+				flush();
+				nodes.push({ type: 'citation', index: parseInt(citation[1], 10), text: citation[0] });
+				i += citation[0].length;
+				continue;
+			}
+		}
+
+		if (char === '<') {
+			const autolink = rest.match(AUTOLINK);
+			if (autolink) {
+				flush();
+				nodes.push({
+					type: 'link',
+					href: autolink[1],
+					children: [{ type: 'text', text: autolink[1].replace(/^mailto:/i, '') }]
+				});
+				i += autolink[0].length;
+				continue;
+			}
+		}
+
+		if (char === 'h' && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+			const url = rest.match(BARE_URL);
+			if (url) {
+				flush();
+				nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+				i += url[0].length;
+				continue;
+			}
+		}
+
+		if (char === '*' || char === '_' || char === '~') {
+			const emphasis = matchEmphasis(text, i);
+			if (emphasis) {
+				flush();
+				nodes.push(emphasis.node);
+				i = emphasis.end;
+				continue;
+			}
+		}
+
+		buffer += char;
+		i++;
+	}
+
+	flush();
+	return nodes;
+}
+
+/**
+ * Emphasis, strong or strikethrough opening at `start`, if it closes
+ */
+function matchEmphasis(text: string, start: number): { node: Inline; end: number } | null {
+	const char = text[start];
+	const run = text.slice(start).match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/)![0];
+
+	let delimiter: string;
+	let type: 'strong' | 'em' | 'del';
+	if (char === '~') {
+		if (run.length !== 2) return null;
+		delimiter = '~~';
+		type = 'del';
+	} else {
+		delimiter = run.length >= 2 ? char.repeat(2) : char;
+		type = delimiter.length === 2 ? 'strong' : 'em';
+	}
+
+	// Underscores inside words (snake_case) aren't emphasis
+	if (char === '_' && start > 0 && /\w/.test(text[start - 1])) return null;
+
+	const contentStart = start + delimiter.length;
+	if (contentStart >= text.length || /\s/.test(text[contentStart])) return null;
+
+	let end = text.indexOf(delimiter, contentStart + 1);
+	while (end !== -1) {
+		const closes =
+			!/\s/.test(text[end - 1]) &&
+			// "**" shouldn't close a single "*"
+			(delimiter.length === 2 || text[end + 1] !== char) &&
+			(char !== '_' || !/\w/.test(text[end + delimiter.length] ?? ''));
+		if (closes) break;
+		end = text.indexOf(delimiter, end + 1);
+	}
+	if (end === -1) return null;
+
+	return {
+		node: { type, children: parseInline(text.slice(contentStart, end)) },
+		end: end + delimiter.length
+	};
+}
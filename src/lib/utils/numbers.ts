@@ -0,0 +1,26 @@
+/**
+ * Number input parsing
+ */
+
+/**
+ * Parse a number field, snapped to `step` and kept within [min, max]
+ *
+ * The result is rounded to the step's decimal places, so a step of 0.1
+ * gives 0.3 rather than 0.30000000000000004.
+ *
+ * @returns The number, or '' for an empty or invalid field
+ */
+export function parseStepNumber(
+	value: string,
+	min: number,
+	max: number,
+	step: number
+): number | '' {
+	if (value.trim() === '') return '';
+	const number = Number(value);
+	if (Number.isNaN(number)) return '';
+
+	const decimals = (String(step).split('.')[1] ?? '').length;
+	const snapped = Number((Math.round(number / step) * step).toFixed(decimals));
+	return Math.min(Math.max(snapped, min), max);
+}
@@ -0,0 +1,26 @@
+/**
+ * Query-string state in the current URL
+ *
+ * Several components on a page keep state in the query (the article list's
+ * filters, the chat's thread). SvelteKit's replaceState doesn't update
+ * page.url, so building the next URL from it would drop whatever another
+ * component wrote since the last navigation. Writers read the live location
+ * instead and only touch their own parameters.
+ */
+
+/**
+ * Path, query and hash of `href` with some parameters changed
+ *
+ * @param changes - New value per parameter; null removes it
+ */
+export function withQueryParams(href: string, changes: Record<string, string | null>): string {
+	const url = new URL(href);
+	for (const [key, value] of Object.entries(changes)) {
+		if (value === null) {
+			url.searchParams.delete(key);
+		} else {
+			url.searchParams.set(key, value);
+		}
+	}
+	return `${url.pathname}${url.search}${url.hash}`;
+}
@@ -0,0 +1,146 @@
+/**
+ * What the session reindex panel shows, and how each server answer changes it
+ *
+ * Kept free of Svelte so every path (start, progress, a lost progress
+ * stream, cancel) can be unit tested. Each function returns a new view; the
+ * caller stops following the task once `status` is no longer 'running'.
+ */
+
+import { ApiRequestError } from '$lib/api/client';
+import type { TaskStatus } from '$lib/api/admin';
+import type { ProgressEvent } from '$lib/api/sse';
+
+export interface ReindexView {
+	status: 'idle' | 'running' | 'success' | 'error';
+	/** Percent done, 0-100 */
+	progress: number;
+	message: string | null;
+	error: string | null;
+	errors: ProgressEvent['errors'];
+	totalArticles: number;
+	processedArticles: number;
+	failedArticles: number;
+}
+
+export const IDLE_REINDEX: ReindexView = {
+	status: 'idle',
+	progress: 0,
+	message: null,
+	error: null,
+	errors: [],
+	totalArticles: 0,
+	processedArticles: 0,
+	failedArticles: 0
+};
+
+export function reindexStarting(): ReindexView {
+	return { ...IDLE_REINDEX, status: 'running', message: 'Starting reindex...' };
+}
+
+export function reindexStarted(view: ReindexView, totalArticles: number): ReindexView {
+	return { ...view, totalArticles, message: `Reindexing ${totalArticles} articles...` };
+}
+
+export function reindexStartFailed(view: ReindexView, err: unknown): ReindexView {
+	return {
+		...view,
+		status: 'error',
+		error: err instanceof Error ? err.message : 'Failed to start reindex',
+		message: null
+	};
+}
+
+function completedMessage(processed: number, failed: number): string {
+	const message = `Completed! ${processed} articles reindexed.`;
+	return failed > 0 ? `${message} (${failed} failed)` : message;
+}
+
+/**
+ * Apply an event from the progress stream
+ */
+export function applyReindexProgress(view: ReindexView, event: ProgressEvent): ReindexView {
+	const next: ReindexView = {
+		...view,
+		processedArticles: event.processed_items,
+		failedArticles: event.failed_items,
+		message: event.message ?? `Processed ${event.processed_items} of ${event.total_items} articles`
+	};
+	if (event.total_items > 0) {
+		next.progress = Math.round((event.processed_items / event.total_items) * 100);
+		next.totalArticles = event.total_items;
+	}
+	if (event.errors && event.errors.length > 0) {
+		next.errors = event.errors;
+	}
+
+	switch (event.status) {
+		case 'completed':
+			return {
+				...next,
+				status: 'success',
+				message: completedMessage(event.processed_items, event.failed_items)
+			};
+		case 'failed':
+			return { ...next, status: 'error', error: event.message ?? 'Reindex failed' };
+		case 'cancelled':
+			return { ...next, status: 'error', error: 'Reindex was cancelled' };
+		default:
+			return next;
+	}
+}
+
+/**
+ * Apply the task status fetched after the progress stream dropped
+ */
+export function applyReindexStatus(view: ReindexView, task: TaskStatus): ReindexView {
+	const next: ReindexView = {
+		...view,
+		processedArticles: task.processed_items,
+		failedArticles: task.failed_items,
+		progress: Math.round(task.progress_percent)
+	};
+
+	if (task.status === 'completed') {
+		return {
+			...next,
+			status: 'success',
+			message: completedMessage(task.processed_items, task.failed_items)
+		};
+	}
+	return {
+		...next,
+		status: 'error',
+		error:
+			task.status === 'failed' || task.status === 'cancelled'
+				? (task.message ?? `Reindex ${task.status}`)
+				: 'Connection lost. The reindex is still running on the server.'
+	};
+}
+
+/**
+ * The progress stream dropped and the task status couldn't be read either
+ */
+export function reindexConnectionLost(view: ReindexView, err: unknown): ReindexView {
+	const expired = err instanceof ApiRequestError && (err.isNotFound || err.isGone);
+	return {
+		...view,
+		status: 'error',
+		error: expired
+			? 'Connection lost and the reindex task has expired on the server.'
+			: 'Connection lost. The reindex may still be running on the server.'
+	};
+}
+
+/**
+ * A cancel request failed; the task may have finished or expired meanwhile
+ */
+export function reindexCancelFailed(view: ReindexView, err: unknown): ReindexView {
+	if (err instanceof ApiRequestError && err.isConflict) {
+		// The stream reports the final state
+		return { ...view, message: 'Reindex already finished.' };
+	}
+	if (err instanceof ApiRequestError && (err.isNotFound || err.isGone)) {
+		return { ...view, status: 'error', error: 'The reindex task has expired on the server.' };
+	}
+	return { ...view, error: err instanceof Error ? err.message : 'Failed to cancel reindex' };
+}
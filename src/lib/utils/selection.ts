@@ -0,0 +1,37 @@
+/**
+ * Checkbox selection with shift-click ranges
+ */
+
+/**
+ * Toggle `id` in `selected`, or with `range` every ID between the anchor
+ * (the previously clicked item) and `id` in display order
+ *
+ * A range takes the state the clicked item is switching to, matching how
+ * file managers behave. Without a usable anchor it toggles just `id`.
+ *
+ * @param selected - Selected IDs, updated in place
+ * @param orderedIds - IDs in the order they are shown
+ */
+export function toggleSelection(
+	selected: Set<number>,
+	orderedIds: number[],
+	id: number,
+	{ range = false, anchorId = null }: { range?: boolean; anchorId?: number | null } = {}
+): void {
+	const select = !selected.has(id);
+	const index = orderedIds.indexOf(id);
+	const anchorIndex = anchorId === null ? -1 : orderedIds.indexOf(anchorId);
+
+	const ids =
+		range && index !== -1 && anchorIndex !== -1
+			? orderedIds.slice(Math.min(index, anchorIndex), Math.max(index, anchorIndex) + 1)
+			: [id];
+
+	for (const each of ids) {
+		if (select) {
+			selected.add(each);
+		} else {
+			selected.delete(each);
+		}
+	}
+}
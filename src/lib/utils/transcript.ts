@@ -0,0 +1,254 @@
+/**
+ * Chat transcripts with resolved citations
+ *
+ * Answers cite sources inline as `[n]`, matching a ChatSource's
+ * citation_index. Exports turn each marker into a footnote holding the
+ * source's title, URL and the quoted chunk, so an answer pasted into a
+ * report still says where each claim came from.
+ *
+ * Footnote labels combine the answer's position and the citation index
+ * ("2-1" is answer 2, citation 1), since every answer numbers from 1.
+ */
+
+import { getArticleTitle } from '$lib/api/articles';
+import type { ArticleResponse, ChatMessageResponse, ChatSource } from '$lib/api/types';
+
+/**
+ * A run of message text, or one `[n]` citation marker
+ */
+export interface ContentSegment {
+	text: string;
+	isCitation: boolean;
+	citationIndex?: number;
+}
+
+/**
+ * Split answer text around its `[n]` citation markers
+ */
+export function parseCitations(content: string): ContentSegment[] {
+	return content
+		.split(/(\[\d+\])/g)
+		.filter((part) => part.length > 0)
+		.map((part) => {
+			const match = part.match(/^\[(\d+)\]$/);
+			return {
+				text: part,
+				isCitation: match !== null,
+				citationIndex: match ? parseInt(match[1], 10) : undefined
+			};
+		});
+}
+
+/**
+ * A source with its title and URL filled in
+ */
+export interface ResolvedSource {
+	citationIndex: number;
+	title: string;
+	url: string | null;
+	/** The retrieved chunk the answer drew on */
+	quote: string | null;
+}
+
+/**
+ * An answer's sources, one per citation index, in citation order
+ *
+ * Titles and URLs come from the source, falling back to the cited article
+ * (when given) if the source doesn't carry them.
+ */
+export function resolveSources(
+	sources: ChatSource[] | null | undefined,
+	articles: ArticleResponse[] = []
+): ResolvedSource[] {
+	const byIndex = new Map<number, ResolvedSource>();
+
+	for (const source of sources ?? []) {
+		if (byIndex.has(source.citation_index)) continue;
+		const article = articles.find((a) => a.id === source.article_id);
+		byIndex.set(source.citation_index, {
+			citationIndex: source.citation_index,
+			title: source.title || (article ? getArticleTitle(article) : `Article #${source.article_id}`),
+			url: source.url || article?.original_url || null,
+			quote: source.content?.replace(/\s+/g, ' ').trim() || null
+		});
+	}
+
+	return [...byIndex.values()].sort((a, b) => a.citationIndex - b.citationIndex);
+}
+
+function speaker(message: ChatMessageResponse): string {
+	return message.role === 'user' ? 'You' : 'Assistant';
+}
+
+/**
+ * Escape text for use inside Markdown link brackets
+ */
+export function markdownLinkText(text: string): string {
+	return text.replace(/[[\]]/g, '\\$&');
+}
+
+/**
+ * Markdown sections for a conversation, one heading per message
+ *
+ * @param level - Heading prefix, e.g. '##'
+ * @param articles - Used to resolve sources without a title or URL
+ * @param footnotePrefix - Keeps footnote labels unique when several
+ *   conversations share a document
+ */
+export function chatToMarkdown(
+	messages: ChatMessageResponse[],
+	level: string,
+	articles: ArticleResponse[] = [],
+	footnotePrefix = ''
+): string {
+	let answer = 0;
+
+	const sections = messages.map((message) => {
+		const heading = `${level} ${speaker(message)}`;
+		if (message.role !== 'assistant') {
+			return `${heading}\n\n${message.content.trim()}\n`;
+		}
+
+		answer++;
+		const sources = resolveSources(message.sources, articles);
+		const cited = new Set(sources.map((s) => s.citationIndex));
+		const body = parseCitations(message.content.trim())
+			.map((segment) =>
+				segment.isCitation && cited.has(segment.citationIndex!)
+					? `[^${footnotePrefix}${answer}-${segment.citationIndex}]`
+					: segment.text
+			)
+			.join('');
+
+		const footnotes = sources.map((source) => {
+			const title = markdownLinkText(source.title);
+			const label = source.url ? `[${title}](${source.url})` : title;
+			const quote = source.quote ? `\n\n    > ${source.quote}` : '';
+			return `[^${footnotePrefix}${answer}-${source.citationIndex}]: ${label}${quote}`;
+		});
+
+		return [`${heading}\n\n${body}\n`, ...footnotes.map((f) => `${f}\n`)].join('\n');
+	});
+
+	return sections.join('\n');
+}
+
+export interface TranscriptOptions {
+	/** Usually the session name */
+	title: string;
+	exportedAt?: Date;
+}
+
+/**
+ * Standalone Markdown transcript with footnoted citations
+ */
+export function transcriptToMarkdown(
+	messages: ChatMessageResponse[],
+	{ title, exportedAt = new Date() }: TranscriptOptions
+): string {
+	const header = `# ${title}\n\nChat transcript exported ${exportedAt.toISOString()}\n`;
+	const body = messages.length > 0 ? chatToMarkdown(messages, '##') : '_No chat messages._\n';
+	return `${header}\n${body}`;
+}
+
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+// Only web links are written as hrefs; anything else (javascript:, data:) is
+// shown as plain text
+function isWebUrl(url: string): boolean {
+	return /^https?:\/\//i.test(url);
+}
+
+const TRANSCRIPT_STYLES = `
+	body { max-width: 46rem; margin: 2rem auto; padding: 0 1rem; font: 16px/1.6 Georgia, serif; color: #1f2937; }
+	h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+	.meta { color: #6b7280; font-size: 0.875rem; margin-top: 0; }
+	.message { margin: 1.5rem 0; break-inside: avoid; }
+	.speaker { font: 600 0.8rem system-ui, sans-serif; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; margin: 0; }
+	.content { white-space: pre-wrap; margin: 0.25rem 0 0; }
+	.user .content { font-weight: 600; }
+	sup a { color: #2563eb; text-decoration: none; }
+	.footnotes { font-size: 0.85rem; color: #4b5563; border-top: 1px solid #e5e7eb; margin-top: 0.75rem; padding-top: 0.5rem; }
+	.footnotes blockquote { margin: 0.25rem 0 0.5rem; padding-left: 0.75rem; border-left: 3px solid #e5e7eb; font-style: italic; }
+	@media print {
+		body { margin: 0; max-width: none; }
+		a { color: inherit; }
+		.footnotes a[href]::after { content: " (" attr(href) ")"; font-size: 0.75rem; }
+	}
+`;
+
+/**
+ * Standalone HTML transcript, also used for the print (PDF) view
+ *
+ * All message and source text is escaped; links are kept only for http(s)
+ * URLs.
+ */
+export function transcriptToHtml(
+	messages: ChatMessageResponse[],
+	{ title, exportedAt = new Date() }: TranscriptOptions
+): string {
+	let answer = 0;
+
+	const items = messages.map((message) => {
+		const role = message.role === 'user' ? 'user' : 'assistant';
+		let body: string;
+		let footnotes = '';
+
+		if (message.role !== 'assistant') {
+			body = escapeHtml(message.content.trim());
+		} else {
+			answer++;
+			const sources = resolveSources(message.sources);
+			const cited = new Set(sources.map((s) => s.citationIndex));
+			body = parseCitations(message.content.trim())
+				.map((segment) =>
+					segment.isCitation && cited.has(segment.citationIndex!)
+						? `<sup><a href="#fn-${answer}-${segment.citationIndex}">${segment.text}</a></sup>`
+						: escapeHtml(segment.text)
+				)
+				.join('');
+
+			if (sources.length > 0) {
+				const entries = sources.map((source) => {
+					const title = escapeHtml(source.title);
+					const label =
+						source.url && isWebUrl(source.url)
+							? `<a href="${escapeHtml(source.url)}">${title}</a>`
+							: title;
+					const quote = source.quote ? `<blockquote>${escapeHtml(source.quote)}</blockquote>` : '';
+					return `<li id="fn-${answer}-${source.citationIndex}" value="${source.citationIndex}">${label}${quote}</li>`;
+				});
+				footnotes = `<ol class="footnotes">${entries.join('')}</ol>`;
+			}
+		}
+
+		return (
+			`<section class="message ${role}"><p class="speaker">${speaker(message)}</p>` +
+			`<div class="content">${body}</div>${footnotes}</section>`
+		);
+	});
+
+	const content = items.length > 0 ? items.join('\n') : '<p><em>No chat messages.</em></p>';
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${TRANSCRIPT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Chat transcript exported ${escapeHtml(exportedAt.toLocaleString())}</p>
+${content}
+</body>
+</html>
+`;
+}
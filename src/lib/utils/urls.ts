@@ -0,0 +1,164 @@
+/**
+ * Parsing and deduplication for bulk URL imports
+ *
+ * Accepts three input formats:
+ * - Plain text: one URL per line (other text on the line is ignored)
+ * - OPML: `<outline>` elements with `url`, `htmlUrl` or `xmlUrl`
+ * - Netscape bookmark exports: `<A HREF="...">Title</A>`
+ *
+ * Design Decision: Regex parsing instead of DOMParser
+ *
+ * Rationale: Both markup formats are flat and attribute-based, and parsing
+ * with regexes keeps this module usable outside the browser (unit tests run
+ * in node without a DOM).
+ */
+
+export type UrlListFormat = 'text' | 'opml' | 'bookmarks';
+
+export interface ParsedUrl {
+	url: string;
+	title: string | null;
+}
+
+export type ImportCandidateStatus = 'new' | 'duplicate' | 'repeated' | 'invalid';
+
+export interface ImportCandidate extends ParsedUrl {
+	status: ImportCandidateStatus;
+}
+
+const ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' '
+};
+
+function decodeEntities(value: string): string {
+	return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+		if (entity[0] === '#') {
+			const code =
+				entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1));
+			return Number.isNaN(code) ? match : String.fromCodePoint(code);
+		}
+		return ENTITIES[entity.toLowerCase()] ?? match;
+	});
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+		attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3]);
+	}
+	return attributes;
+}
+
+/**
+ * Guess the format from the content, falling back to the file name
+ */
+export function detectFormat(content: string, fileName?: string): UrlListFormat {
+	const head = content.slice(0, 2000).toLowerCase();
+	if (head.includes('<opml') || fileName?.toLowerCase().endsWith('.opml')) return 'opml';
+	if (head.includes('netscape-bookmark-file') || /<a\s[^>]*href=/i.test(content)) {
+		return 'bookmarks';
+	}
+	return 'text';
+}
+
+/**
+ * One URL per line; lines without an http(s) URL are skipped
+ */
+export function parseUrlList(text: string): ParsedUrl[] {
+	return text
+		.split(/\r?\n/)
+		.map((line) => line.match(/https?:\/\/[^\s<>"']+/i)?.[0])
+		.filter((url): url is string => !!url)
+		.map((url) => ({ url, title: null }));
+}
+
+export function parseOpml(xml: string): ParsedUrl[] {
+	const results: ParsedUrl[] = [];
+	for (const match of xml.matchAll(/<outline\b[^>]*>/gi)) {
+		const attributes = parseAttributes(match[0]);
+		const url = attributes.url ?? attributes.htmlurl ?? attributes.xmlurl;
+		if (url) {
+			results.push({ url, title: attributes.title || attributes.text || null });
+		}
+	}
+	return results;
+}
+
+export function parseBookmarksHtml(html: string): ParsedUrl[] {
+	const results: ParsedUrl[] = [];
+	for (const match of html.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+		const url = parseAttributes(match[1]).href;
+		if (url) {
+			const title = decodeEntities(match[2].replace(/<[^>]*>/g, '')).trim();
+			results.push({ url, title: title || null });
+		}
+	}
+	return results;
+}
+
+export function parseUrlImport(content: string, format: UrlListFormat): ParsedUrl[] {
+	switch (format) {
+		case 'opml':
+			return parseOpml(content);
+		case 'bookmarks':
+			return parseBookmarksHtml(content);
+		case 'text':
+			return parseUrlList(content);
+	}
+}
+
+/**
+ * Canonical form used to compare URLs
+ *
+ * Lower-cases the host, drops the fragment, default ports and a trailing
+ * slash, so `https://Example.com/a/#intro` matches `https://example.com/a`.
+ * Returns null for anything that isn't an http(s) URL.
+ */
+export function normalizeUrl(url: string): string | null {
+	let parsed: URL;
+	try {
+		parsed = new URL(url.trim());
+	} catch {
+		return null;
+	}
+	if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+	parsed.hash = '';
+	const path = parsed.pathname.replace(/\/+$/, '');
+	return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+}
+
+/**
+ * Mark each parsed URL as new, already in the session, repeated earlier in
+ * the same import, or invalid
+ */
+export function classifyUrls(
+	parsed: ParsedUrl[],
+	existingUrls: Iterable<string | null | undefined>
+): ImportCandidate[] {
+	const existing = new Set<string>();
+	for (const url of existingUrls) {
+		const normalized = url ? normalizeUrl(url) : null;
+		if (normalized) existing.add(normalized);
+	}
+
+	const seen = new Set<string>();
+	return parsed.map(({ url, title }) => {
+		const normalized = normalizeUrl(url);
+		let status: ImportCandidateStatus = 'new';
+		if (!normalized) {
+			status = 'invalid';
+		} else if (existing.has(normalized)) {
+			status = 'duplicate';
+		} else if (seen.has(normalized)) {
+			status = 'repeated';
+		}
+		if (normalized) seen.add(normalized);
+		return { url: url.trim(), title, status };
+	});
+}
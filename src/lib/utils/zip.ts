@@ -0,0 +1,188 @@
+/**
+ * Minimal zip archive writer and reader
+ *
+ * Design Decision: Stored (uncompressed) entries, no dependency
+ *
+ * Rationale: Export bundles are mostly text and are built once per export,
+ * so compression isn't worth a library. Stored entries keep the writer to a
+ * CRC and three record layouts, and every unzip tool can read them. The
+ * reader also accepts deflated entries, since a bundle someone unpacked and
+ * zipped again with their own tool will usually be compressed.
+ */
+
+export interface ZipEntry {
+	/** Path inside the archive, with forward slashes */
+	name: string;
+	data: string | Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields; zip has no time zone, so local time is used
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+	};
+}
+
+/**
+ * Build a zip archive from the given files
+ */
+export function createZip(
+	entries: ZipEntry[],
+	modified: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+	const { time, date } = dosDateTime(modified);
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+		const crc = crc32(data);
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true); // Local file header signature
+		local.setUint16(4, 20, true); // Version needed to extract
+		local.setUint16(6, 0x0800, true); // Flags: UTF-8 file names
+		local.setUint16(8, 0, true); // Compression: stored
+		local.setUint16(10, time, true);
+		local.setUint16(12, date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, data.length, true); // Compressed size
+		local.setUint32(22, data.length, true); // Uncompressed size
+		local.setUint16(26, name.length, true);
+		local.setUint16(28, 0, true); // Extra field length
+
+		const central = new DataView(new ArrayBuffer(46));
+		central.setUint32(0, 0x02014b50, true); // Central directory header signature
+		central.setUint16(4, 20, true); // Version made by
+		central.setUint16(6, 20, true); // Version needed to extract
+		central.setUint16(8, 0x0800, true);
+		central.setUint16(10, 0, true);
+		central.setUint16(12, time, true);
+		central.setUint16(14, date, true);
+		central.setUint32(16, crc, true);
+		central.setUint32(20, data.length, true);
+		central.setUint32(24, data.length, true);
+		central.setUint16(28, name.length, true);
+		// Extra, comment, disk number and attributes stay zero
+		central.setUint32(42, offset, true); // Offset of the local header
+
+		localParts.push(new Uint8Array(local.buffer), name, data);
+		centralParts.push(new Uint8Array(central.buffer), name);
+		offset += 30 + name.length + data.length;
+	}
+
+	const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true); // End of central directory signature
+	end.setUint16(8, entries.length, true); // Entries on this disk
+	end.setUint16(10, entries.length, true); // Total entries
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true); // Central directory offset
+
+	return concat([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+/**
+ * Read the files in a zip archive
+ *
+ * Supports stored and deflated entries; directories are skipped. Throws if
+ * the data isn't a zip archive or uses another compression method.
+ */
+export async function readZip(data: Uint8Array): Promise<ZipEntry[]> {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+	// The end record is last, followed only by an optional comment
+	let end = -1;
+	for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+		if (view.getUint32(i, true) === 0x06054b50) {
+			end = i;
+			break;
+		}
+	}
+	if (end < 0) {
+		throw new Error('Not a zip archive');
+	}
+
+	const decoder = new TextDecoder();
+	const count = view.getUint16(end + 10, true);
+	let position = view.getUint32(end + 16, true);
+	const entries: ZipEntry[] = [];
+
+	for (let i = 0; i < count; i++) {
+		if (view.getUint32(position, true) !== 0x02014b50) {
+			throw new Error('Corrupt zip archive');
+		}
+		const method = view.getUint16(position + 10, true);
+		const compressedSize = view.getUint32(position + 20, true);
+		const nameLength = view.getUint16(position + 28, true);
+		const extraLength = view.getUint16(position + 30, true);
+		const commentLength = view.getUint16(position + 32, true);
+		const localOffset = view.getUint32(position + 42, true);
+		const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength));
+		position += 46 + nameLength + extraLength + commentLength;
+
+		if (name.endsWith('/')) continue;
+
+		// The local header's extra field can differ from the central one
+		const dataStart =
+			localOffset +
+			30 +
+			view.getUint16(localOffset + 26, true) +
+			view.getUint16(localOffset + 28, true);
+		const raw = data.subarray(dataStart, dataStart + compressedSize);
+
+		if (method === 0) {
+			entries.push({ name, data: raw });
+		} else if (method === 8) {
+			entries.push({ name, data: await inflate(raw) });
+		} else {
+			throw new Error(`Unsupported compression in zip entry "${name}"`);
+		}
+	}
+
+	return entries;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data.slice()])
+		.stream()
+		.pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+	const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+	let position = 0;
+	for (const part of parts) {
+		result.set(part, position);
+		position += part.length;
+	}
+	return result;
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { ApiClient } from '$lib/api/client';
+import {
+	ApiClient,
+	ApiRequestError,
+	ApiTimeoutError,
+	getFieldErrors,
+	isAbortError,
+	UNSUPPORTED_STATUSES
+} from '$lib/api/client';
 
 describe('ApiClient', () => {
 	let apiClient: ApiClient;
@@ -120,15 +127,213 @@ describe('ApiClient', () => {
 
 			await expect(apiClient.get('/test')).rejects.toThrow();
 
-			expect(consoleErrorSpy).toHaveBeenCalledWith(
-				'API request failed:',
-				expect.any(Error)
+			expect(consoleErrorSpy).toHaveBeenCalledWith('API request failed:', expect.any(Error));
+
+			consoleErrorSpy.mockRestore();
+		});
+
+		it('should not log statuses the caller handles', async () => {
+			const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 404,
+				json: async () => ({ detail: 'Not Found' })
+			});
+
+			await expect(apiClient.get('/test', { quietStatuses: UNSUPPORTED_STATUSES })).rejects.toThrow(
+				'Not Found'
 			);
 
+			expect(consoleErrorSpy).not.toHaveBeenCalled();
+
 			consoleErrorSpy.mockRestore();
 		});
 	});
 
+	describe('ApiRequestError', () => {
+		async function captureError(promise: Promise<unknown>): Promise<ApiRequestError> {
+			try {
+				await promise;
+			} catch (error) {
+				expect(error).toBeInstanceOf(ApiRequestError);
+				return error as ApiRequestError;
+			}
+			throw new Error('Expected request to fail');
+		}
+
+		beforeEach(() => {
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+		});
+
+		it('should carry status, code and path from the API contract format', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 409,
+				json: async () => ({
+					error: { code: 'DUPLICATE_URL', message: 'Article already exists' }
+				})
+			});
+
+			const error = await captureError(apiClient.post('/sessions/1/articles/url', {}));
+
+			expect(error.message).toBe('Article already exists');
+			expect(error.status).toBe(409);
+			expect(error.code).toBe('DUPLICATE_URL');
+			expect(error.path).toBe('/sessions/1/articles/url');
+			expect(error.isConflict).toBe(true);
+			expect(error.fieldErrors).toEqual([]);
+		});
+
+		it('should keep the status for FastAPI string details', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 404,
+				json: async () => ({ detail: 'Task not found' })
+			});
+
+			const error = await captureError(apiClient.get('/admin/reindex/abc'));
+
+			expect(error.message).toBe('Task not found');
+			expect(error.isNotFound).toBe(true);
+			expect(error.isGone).toBe(false);
+			expect(error.code).toBeNull();
+		});
+
+		it('should flag 410 Gone responses', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 410,
+				json: async () => ({ detail: 'Task expired' })
+			});
+
+			const error = await captureError(apiClient.get('/admin/reindex/abc'));
+
+			expect(error.isGone).toBe(true);
+		});
+
+		it('should parse FastAPI validation errors into field errors', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 422,
+				json: async () => ({
+					detail: [
+						{ loc: ['body', 'url'], msg: 'Input should be a valid URL', type: 'url_parsing' },
+						{ loc: ['body', 'title'], msg: 'String too long', type: 'string_too_long' },
+						{ loc: ['query', 'status'], msg: 'Invalid status', type: 'enum' }
+					]
+				})
+			});
+
+			const error = await captureError(apiClient.post('/test', {}));
+
+			expect(error.isValidationError).toBe(true);
+			expect(error.fieldErrors).toEqual([
+				{
+					field: 'url',
+					message: 'Input should be a valid URL',
+					loc: ['body', 'url'],
+					type: 'url_parsing'
+				},
+				{
+					field: 'title',
+					message: 'String too long',
+					loc: ['body', 'title'],
+					type: 'string_too_long'
+				},
+				{ field: 'status', message: 'Invalid status', loc: ['query', 'status'], type: 'enum' }
+			]);
+			expect(error.message).toBe(
+				'url: Input should be a valid URL; title: String too long; status: Invalid status'
+			);
+			expect(error.fieldError('url')).toBe('Input should be a valid URL');
+			expect(error.fieldError('description')).toBeUndefined();
+		});
+
+		it('should join nested validation locations', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 422,
+				json: async () => ({
+					detail: [{ loc: ['body', 'session_ids', 0], msg: 'Expected integer', type: 'int' }]
+				})
+			});
+
+			const error = await captureError(apiClient.post('/test', {}));
+
+			expect(error.fieldErrors[0].field).toBe('session_ids.0');
+		});
+
+		it('should parse field errors from API contract details', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 400,
+				json: async () => ({
+					error: {
+						code: 'VALIDATION_ERROR',
+						message: 'Invalid request',
+						details: [{ loc: ['body', 'name'], msg: 'Name is required', type: 'missing' }]
+					}
+				})
+			});
+
+			const error = await captureError(apiClient.post('/sessions', {}));
+
+			expect(error.message).toBe('Invalid request');
+			expect(error.code).toBe('VALIDATION_ERROR');
+			expect(error.fieldError('name')).toBe('Name is required');
+		});
+
+		it('should keep object details without field errors', async () => {
+			const detail = { field: 'email', error: 'Invalid email format' };
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 400,
+				json: async () => ({ detail })
+			});
+
+			const error = await captureError(apiClient.get('/test'));
+
+			expect(error.fieldErrors).toEqual([]);
+			expect(error.details).toEqual(detail);
+		});
+
+		it('should fall back to status text when the body is not JSON', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 502,
+				statusText: 'Bad Gateway',
+				json: async () => {
+					throw new Error('Invalid JSON');
+				}
+			});
+
+			const error = await captureError(apiClient.get('/test', { retries: 0 }));
+
+			expect(error.message).toBe('Bad Gateway');
+			expect(error.status).toBe(502);
+			expect(error.code).toBeNull();
+		});
+
+		it('should map field errors for forms', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: false,
+				status: 422,
+				json: async () => ({
+					detail: [
+						{ loc: ['body', 'name'], msg: 'Too short', type: 'string_too_short' },
+						{ loc: ['body', 'name'], msg: 'Second error', type: 'other' }
+					]
+				})
+			});
+
+			const error = await captureError(apiClient.post('/sessions', {}));
+
+			expect(getFieldErrors(error)).toEqual({ name: 'Too short' });
+			expect(getFieldErrors(new Error('plain'))).toEqual({});
+		});
+	});
+
 	describe('Successful Requests', () => {
 		it('should return parsed JSON on successful request', async () => {
 			const responseData = { id: 1, name: 'Test' };
@@ -247,4 +452,211 @@ describe('ApiClient', () => {
 			);
 		});
 	});
+
+	describe('Typed requests', () => {
+		beforeEach(() => {
+			fetchMock.mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => ({})
+			});
+		});
+
+		it('should substitute path parameters', async () => {
+			await apiClient.request('/api/v1/sessions/{session_id}/articles/{article_id}', 'get', {
+				params: { path: { session_id: 1, article_id: 42 } }
+			});
+
+			expect(fetchMock).toHaveBeenCalledWith(
+				'http://test.com/api/v1/sessions/1/articles/42',
+				expect.objectContaining({ method: 'GET' })
+			);
+		});
+
+		it('should append query parameters and skip empty ones', async () => {
+			await apiClient.request('/api/v1/sessions', 'get', {
+				params: { query: { status: 'active' } }
+			});
+			await apiClient.request('/api/v1/sessions', 'get', {
+				params: { query: { status: null } }
+			});
+
+			expect(fetchMock).toHaveBeenNthCalledWith(
+				1,
+				'http://test.com/api/v1/sessions?status=active',
+				expect.anything()
+			);
+			expect(fetchMock).toHaveBeenNthCalledWith(
+				2,
+				'http://test.com/api/v1/sessions',
+				expect.anything()
+			);
+		});
+
+		it('should serialize the JSON body', async () => {
+			const body = { name: 'Research' };
+
+			await apiClient.request('/api/v1/sessions', 'post', { body });
+
+			expect(fetchMock).toHaveBeenCalledWith(
+				'http://test.com/api/v1/sessions',
+				expect.objectContaining({ method: 'POST', body: JSON.stringify(body) })
+			);
+		});
+
+		it('should resolve to undefined for 204 No Content', async () => {
+			fetchMock.mockResolvedValueOnce({
+				ok: true,
+				status: 204,
+				json: async () => {
+					throw new Error('No body');
+				}
+			});
+
+			const result = await apiClient.request('/api/v1/sessions/{session_id}', 'delete', {
+				params: { path: { session_id: 1 } }
+			});
+
+			expect(result).toBeUndefined();
+		});
+
+		it('should keep the request alive past unload when asked', async () => {
+			await apiClient.request('/api/v1/sessions/{session_id}', 'delete', {
+				params: { path: { session_id: 1 } },
+				keepalive: true
+			});
+
+			expect(fetchMock).toHaveBeenCalledWith(
+				'http://test.com/api/v1/sessions/1',
+				expect.objectContaining({ method: 'DELETE', keepalive: true })
+			);
+		});
+	});
+
+	describe('Retries, timeouts and cancellation', () => {
+		const gatewayError = () => ({
+			ok: false,
+			status: 503,
+			statusText: 'Service Unavailable',
+			json: async () => ({ detail: 'Service Unavailable' })
+		});
+		const success = () => ({ ok: true, status: 200, json: async () => ({ id: 1 }) });
+
+		/** Resolves like fetch, but only rejects once the request is aborted */
+		function hangingFetch(_url: string, init: RequestInit): Promise<never> {
+			return new Promise((_, reject) => {
+				init.signal?.addEventListener('abort', () =>
+					reject(new DOMException('The operation was aborted.', 'AbortError'))
+				);
+			});
+		}
+
+		beforeEach(() => {
+			apiClient = new ApiClient('http://test.com', { retryDelayMs: 0 });
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+		});
+
+		it('should retry GET requests on gateway errors', async () => {
+			fetchMock
+				.mockResolvedValueOnce(gatewayError())
+				.mockResolvedValueOnce(gatewayError())
+				.mockResolvedValueOnce(success());
+
+			await expect(apiClient.get('/test')).resolves.toEqual({ id: 1 });
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+
+		it('should give up after the configured number of retries', async () => {
+			fetchMock.mockResolvedValue(gatewayError());
+
+			await expect(apiClient.get('/test', { retries: 1 })).rejects.toMatchObject({
+				status: 503
+			});
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+
+		it('should retry GET requests on network errors', async () => {
+			fetchMock
+				.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+				.mockResolvedValueOnce(success());
+
+			await expect(apiClient.get('/test')).resolves.toEqual({ id: 1 });
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not retry non-idempotent requests', async () => {
+			fetchMock.mockResolvedValue(gatewayError());
+
+			await expect(apiClient.post('/test', {})).rejects.toBeInstanceOf(ApiRequestError);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not retry client errors', async () => {
+			fetchMock.mockResolvedValue({ ok: false, status: 404, json: async () => ({}) });
+
+			await expect(apiClient.get('/test')).rejects.toMatchObject({ status: 404 });
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should reject with ApiTimeoutError when the server does not respond', async () => {
+			fetchMock.mockImplementation(hangingFetch);
+
+			const error = await apiClient
+				.get('/test', { timeoutMs: 10, retries: 0 })
+				.catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(ApiTimeoutError);
+			expect((error as ApiTimeoutError).path).toBe('/test');
+		});
+
+		it('should retry GET requests that time out', async () => {
+			fetchMock.mockImplementationOnce(hangingFetch).mockResolvedValueOnce(success());
+
+			await expect(apiClient.get('/test', { timeoutMs: 10 })).resolves.toEqual({ id: 1 });
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+
+		it('should reject with an AbortError when the caller aborts', async () => {
+			fetchMock.mockImplementation(hangingFetch);
+			const controller = new AbortController();
+
+			const promise = apiClient.get('/test', { signal: controller.signal });
+			controller.abort();
+			const error = await promise.catch((e: unknown) => e);
+
+			expect(isAbortError(error)).toBe(true);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			expect(console.error).not.toHaveBeenCalled();
+		});
+
+		it('should stop retrying when aborted during backoff', async () => {
+			apiClient = new ApiClient('http://test.com', { retryDelayMs: 1000 });
+			fetchMock.mockResolvedValue(gatewayError());
+			const controller = new AbortController();
+
+			const promise = apiClient.get('/test', { signal: controller.signal });
+			// Let the first attempt fail and enter its backoff delay
+			await new Promise((resolve) => setTimeout(resolve, 20));
+			controller.abort();
+
+			expect(isAbortError(await promise.catch((e: unknown) => e))).toBe(true);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should honour an already aborted signal in typed requests', async () => {
+			fetchMock.mockImplementation(hangingFetch);
+			const controller = new AbortController();
+			controller.abort();
+
+			const error = await apiClient
+				.request('/api/v1/sessions/{session_id}', 'get', {
+					params: { path: { session_id: 1 } },
+					signal: controller.signal
+				})
+				.catch((e: unknown) => e);
+
+			expect(isAbortError(error)).toBe(true);
+			expect(fetchMock).not.toHaveBeenCalled();
+		});
+	});
 });
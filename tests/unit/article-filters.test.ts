@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyArticleFilters,
+	DEFAULT_ARTICLE_FILTERS,
+	filtersFromSearchParams,
+	filtersToQuery,
+	hasActiveFilters,
+	type ArticleFilters
+} from '$lib/utils/articleFilters';
+import type { ArticleResponse } from '$lib/api/types';
+import { article } from './fixtures';
+
+function withFilters(changes: Partial<ArticleFilters>): ArticleFilters {
+	return { ...DEFAULT_ARTICLE_FILTERS, ...changes };
+}
+
+describe('filtersFromSearchParams', () => {
+	it('should read every filter', () => {
+		const params = new URLSearchParams('q=attention&type=file&status=failed&sort=title&dir=asc');
+
+		expect(filtersFromSearchParams(params)).toEqual({
+			query: 'attention',
+			type: 'file',
+			status: 'failed',
+			sort: 'title',
+			direction: 'asc'
+		});
+	});
+
+	it('should fall back to defaults for missing or unknown values', () => {
+		const params = new URLSearchParams('type=video&status=done&sort=size');
+
+		expect(filtersFromSearchParams(params)).toEqual(DEFAULT_ARTICLE_FILTERS);
+	});
+});
+
+describe('filtersToQuery', () => {
+	it('should clear defaults and trim the search', () => {
+		expect(filtersToQuery(withFilters({ query: ' rag ', status: 'failed' }))).toEqual({
+			q: 'rag',
+			type: null,
+			status: 'failed',
+			sort: null,
+			dir: null
+		});
+	});
+
+	it('should round-trip through the URL', () => {
+		const filters = withFilters({ query: 'llm', type: 'url', sort: 'status', direction: 'asc' });
+		const query = Object.entries(filtersToQuery(filters)).filter(
+			(entry): entry is [string, string] => entry[1] !== null
+		);
+
+		expect(filtersFromSearchParams(new URLSearchParams(query))).toEqual(filters);
+	});
+});
+
+describe('hasActiveFilters', () => {
+	it('should ignore the sort order', () => {
+		expect(hasActiveFilters(withFilters({ sort: 'title', direction: 'asc' }))).toBe(false);
+		expect(hasActiveFilters(withFilters({ type: 'file' }))).toBe(true);
+		expect(hasActiveFilters(withFilters({ query: '  ' }))).toBe(false);
+	});
+});
+
+describe('applyArticleFilters', () => {
+	const articles = [
+		article(1, { title: 'Attention Is All You Need', type: 'file', original_url: null }),
+		article(2, { title: 'BERT', extraction_status: 'failed' }),
+		article(3, { original_url: 'https://blog.example.com/attention-explained' }),
+		article(4, { original_filename: 'notes.pdf', type: 'file', extraction_status: 'pending' })
+	];
+	const ids = (result: ArticleResponse[]) => result.map((a) => a.id);
+
+	it('should sort newest first by default', () => {
+		expect(ids(applyArticleFilters(articles, DEFAULT_ARTICLE_FILTERS))).toEqual([4, 3, 2, 1]);
+	});
+
+	it('should search title, URL and file name case-insensitively', () => {
+		expect(ids(applyArticleFilters(articles, withFilters({ query: 'ATTENTION' })))).toEqual([3, 1]);
+		expect(ids(applyArticleFilters(articles, withFilters({ query: 'notes' })))).toEqual([4]);
+	});
+
+	it('should filter by type and status', () => {
+		expect(ids(applyArticleFilters(articles, withFilters({ type: 'file' })))).toEqual([4, 1]);
+		expect(ids(applyArticleFilters(articles, withFilters({ status: 'failed' })))).toEqual([2]);
+	});
+
+	it('should sort by title, falling back to URL or file name', () => {
+		const result = applyArticleFilters(articles, withFilters({ sort: 'title', direction: 'asc' }));
+
+		expect(ids(result)).toEqual([1, 2, 3, 4]);
+	});
+
+	it('should sort failed articles first by status, keeping ties in order', () => {
+		const result = applyArticleFilters(articles, withFilters({ sort: 'status', direction: 'asc' }));
+
+		expect(ids(result)).toEqual([2, 4, 1, 3]);
+	});
+});
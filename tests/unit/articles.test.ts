@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+	getExtractionError,
+	getTrashedArticles,
+	purgeArticle,
+	restoreArticle,
+	retryExtraction,
+	transferArticle
+} from '$lib/api/articles';
+import type { ArticleResponse } from '$lib/api/types';
+import { article, jsonResponse } from './fixtures';
+
+function failedArticle(overrides: Partial<ArticleResponse> = {}): ArticleResponse {
+	return article(7, {
+		original_url: 'https://example.com/paywalled',
+		extraction_status: 'failed',
+		has_content: false,
+		...overrides
+	});
+}
+
+/**
+ * Replace XMLHttpRequest so uploads answer with `status`, recording each one
+ */
+function stubUploads(status: number): { url: string; file: File }[] {
+	const uploads: { url: string; file: File }[] = [];
+	class FakeUpload extends EventTarget {
+		upload = new EventTarget();
+		status = 0;
+		statusText = '';
+		responseText = '';
+		private url = '';
+
+		open(_method: string, url: string) {
+			this.url = url;
+		}
+
+		send(body: FormData) {
+			uploads.push({ url: this.url, file: body.get('file') as File });
+			this.status = status;
+			this.responseText = JSON.stringify({ id: 8, extraction_status: 'pending' });
+			queueMicrotask(() => this.dispatchEvent(new Event('load')));
+		}
+
+		abort() {}
+	}
+	vi.stubGlobal('XMLHttpRequest', FakeUpload);
+	return uploads;
+}
+
+describe('getExtractionError', () => {
+	it('should read the reason when the service sends one', () => {
+		const article = { ...failedArticle(), extraction_error: ' HTTP 403 from origin ' };
+
+		expect(getExtractionError(article)).toBe('HTTP 403 from origin');
+	});
+
+	it('should return null when no reason is reported', () => {
+		expect(getExtractionError(failedArticle())).toBeNull();
+	});
+});
+
+describe('retryExtraction', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should use the retry endpoint when available', async () => {
+		const retried = failedArticle({ extraction_status: 'pending' });
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, retried));
+
+		const result = await retryExtraction(1, failedArticle());
+
+		expect(result).toEqual(retried);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock.mock.calls[0][0]).toContain('/api/v1/sessions/1/articles/7/retry');
+	});
+
+	it('should re-add a URL article when there is no retry endpoint', async () => {
+		const readded = failedArticle({ id: 8, extraction_status: 'pending' });
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }))
+			.mockResolvedValueOnce(jsonResponse(200, failedArticle()))
+			.mockResolvedValueOnce(jsonResponse(201, readded))
+			.mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' });
+
+		const result = await retryExtraction(1, failedArticle());
+
+		expect(result.id).toBe(8);
+		const [, lookupCall, addCall, deleteCall] = fetchMock.mock.calls;
+		expect(lookupCall[0]).toMatch(/\/api\/v1\/sessions\/1\/articles\/7$/);
+		expect(addCall[0]).toContain('/api/v1/sessions/1/articles/url');
+		expect(JSON.parse(addCall[1].body)).toEqual({ url: 'https://example.com/paywalled' });
+		expect(deleteCall[0]).toContain('/api/v1/sessions/1/articles/7');
+		expect(deleteCall[1].method).toBe('DELETE');
+	});
+
+	it('should ask for a new source for files when there is no retry endpoint', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(405, { detail: 'Method Not Allowed' }));
+		const article = failedArticle({ type: 'file', original_url: null, original_filename: 'a.pdf' });
+
+		await expect(retryExtraction(1, article)).rejects.toThrow(/Upload it again/);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should not fall back on other errors', async () => {
+		fetchMock.mockResolvedValueOnce(
+			jsonResponse(409, { error: { code: 'CONFLICT', message: 'Already extracting' } })
+		);
+
+		await expect(retryExtraction(1, failedArticle())).rejects.toThrow('Already extracting');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should not re-add an article the service no longer has', async () => {
+		// The same 404 body as a missing route; only the lookup tells them apart
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }))
+			.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }));
+
+		await expect(retryExtraction(1, failedArticle())).rejects.toThrow('Not Found');
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('trash', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should list trashed articles', async () => {
+		const deleted = failedArticle({ extraction_status: 'completed' });
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, { items: [deleted], total: 1 }));
+
+		const result = await getTrashedArticles(1);
+
+		expect(result?.items).toEqual([deleted]);
+		expect(fetchMock.mock.calls[0][0]).toContain('/api/v1/sessions/1/trash');
+	});
+
+	it('should return null when the service has no trash', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }));
+
+		await expect(getTrashedArticles(1)).resolves.toBeNull();
+	});
+
+	it('should restore and purge through the trash endpoints', async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(200, failedArticle()))
+			.mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' });
+
+		await restoreArticle(1, 7);
+		await purgeArticle(1, 7);
+
+		const [restoreCall, purgeCall] = fetchMock.mock.calls;
+		expect(restoreCall[0]).toContain('/api/v1/sessions/1/trash/7/restore');
+		expect(restoreCall[1].method).toBe('POST');
+		expect(purgeCall[0]).toContain('/api/v1/sessions/1/trash/7');
+		expect(purgeCall[1].method).toBe('DELETE');
+	});
+});
+
+describe('transferArticle', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('should use the move endpoint when available', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, failedArticle({ session_id: 2 })));
+
+		await transferArticle(1, failedArticle(), 2, 'move');
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toContain('/api/v1/sessions/1/articles/7/move');
+		expect(JSON.parse(init.body)).toEqual({ target_session_id: 2 });
+	});
+
+	it('should re-add the URL and delete the original when moving without content', async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }))
+			.mockResolvedValueOnce(jsonResponse(201, failedArticle({ id: 8, session_id: 2 })))
+			.mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' });
+
+		await transferArticle(1, failedArticle(), 2, 'move');
+
+		const [, addCall, deleteCall] = fetchMock.mock.calls;
+		expect(addCall[0]).toContain('/api/v1/sessions/2/articles/url');
+		expect(deleteCall[0]).toContain('/api/v1/sessions/1/articles/7');
+		expect(deleteCall[1].method).toBe('DELETE');
+	});
+
+	it('should keep the original when copying', async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }))
+			.mockResolvedValueOnce(jsonResponse(201, failedArticle({ id: 8, session_id: 2 })));
+
+		await transferArticle(1, failedArticle(), 2, 'copy');
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should move extracted text rather than fetching the URL again', async () => {
+		const uploads = stubUploads(201);
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }))
+			.mockResolvedValueOnce(jsonResponse(200, { content_text: 'Paywalled body' }))
+			.mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' });
+		const paywalled = failedArticle({ extraction_status: 'completed', has_content: true });
+
+		await transferArticle(1, paywalled, 2, 'move');
+
+		expect(uploads).toHaveLength(1);
+		expect(uploads[0].url).toContain('/api/v1/sessions/2/articles/upload');
+		expect(await uploads[0].file.text()).toBe(
+			'Source: https://example.com/paywalled\n\nPaywalled body'
+		);
+		const urls = fetchMock.mock.calls.map(([url]) => url as string);
+		expect(urls.some((url) => url.endsWith('/articles/url'))).toBe(false);
+		expect(urls[2]).toContain('/api/v1/sessions/1/articles/7');
+	});
+
+	it('should keep the original when the moved copy fails', async () => {
+		stubUploads(500);
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }))
+			.mockResolvedValueOnce(jsonResponse(200, { content_text: 'Paywalled body' }));
+		const paywalled = failedArticle({ extraction_status: 'completed', has_content: true });
+
+		await expect(transferArticle(1, paywalled, 2, 'move')).rejects.toThrow();
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should refuse files without extracted content', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(405, { detail: 'Method Not Allowed' }));
+		const article = failedArticle({ type: 'file', original_url: null, original_filename: 'a.pdf' });
+
+		await expect(transferArticle(1, article, 2, 'copy')).rejects.toThrow(/no extracted content/);
+	});
+});
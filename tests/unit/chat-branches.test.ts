@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { activePath, savedAncestorId, withParents } from '$lib/utils/chatBranches';
+
+function message(id: number, parent_id: number | null) {
+	return { id, parent_id };
+}
+
+describe('withParents', () => {
+	it('should chain messages without a parent_id', () => {
+		const history = [1, 2, 3].map((id) => ({
+			id,
+			role: 'user' as const,
+			content: '',
+			sources: null,
+			created_at: ''
+		}));
+
+		expect(withParents(history).map((m) => m.parent_id)).toEqual([null, 1, 2]);
+	});
+
+	it('should keep parent_id from the service', () => {
+		const history = [
+			{ id: 1, role: 'user' as const, content: '', sources: null, created_at: '' },
+			{ id: 2, role: 'user' as const, content: '', sources: null, created_at: '', parent_id: null }
+		];
+
+		expect(withParents(history).map((m) => m.parent_id)).toEqual([null, null]);
+	});
+});
+
+describe('activePath', () => {
+	// 1 → 2, then 2 has two answers 3 and 4; 5 is an edit of 1
+	const tree = [message(1, null), message(2, 1), message(3, 2), message(4, 2), message(5, null)];
+
+	it('should follow the newest alternative by default', () => {
+		const path = activePath(tree, new Map());
+
+		expect(path.map((e) => e.message.id)).toEqual([5]);
+		expect(path[0]).toMatchObject({ index: 1 });
+		expect(path[0].siblings.map((m) => m.id)).toEqual([1, 5]);
+	});
+
+	it('should follow selected alternatives', () => {
+		const path = activePath(
+			tree,
+			new Map([
+				[null, 1],
+				[2, 3]
+			])
+		);
+
+		expect(path.map((e) => e.message.id)).toEqual([1, 2, 3]);
+		expect(path.map((e) => `${e.index + 1}/${e.siblings.length}`)).toEqual(['1/2', '1/1', '1/2']);
+	});
+
+	it('should ignore selections of removed messages', () => {
+		const path = activePath(tree, new Map([[null, 99]]));
+
+		expect(path.map((e) => e.message.id)).toEqual([5]);
+	});
+
+	it('should stop at a loop', () => {
+		const path = activePath([message(1, null), message(2, 1), message(1, 2)], new Map());
+
+		expect(path.map((e) => e.message.id)).toEqual([1, 2]);
+	});
+
+	it('should be empty without messages', () => {
+		expect(activePath([], new Map())).toEqual([]);
+	});
+});
+
+describe('savedAncestorId', () => {
+	const messages = [
+		message(1, null),
+		message(2, 1),
+		{ ...message(1700000000000, 2), unsaved: true },
+		{ ...message(-1700000000000, 1700000000000), unsaved: true }
+	];
+
+	it('should keep a saved message', () => {
+		expect(savedAncestorId(messages, 2)).toBe(2);
+	});
+
+	it('should skip messages the service never confirmed', () => {
+		expect(savedAncestorId(messages, -1700000000000)).toBe(2);
+	});
+
+	it('should be null at the start of the conversation', () => {
+		expect(savedAncestorId([{ ...message(5, null), unsaved: true }], 5)).toBeNull();
+		expect(savedAncestorId(messages, null)).toBeNull();
+	});
+});
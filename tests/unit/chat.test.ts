@@ -0,0 +1,305 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+	clearChatHistory,
+	getChatHistory,
+	getChatThreads,
+	getMessageScope,
+	getMessageSettings,
+	getUserMessageId,
+	ignoredSettings,
+	sendMessage,
+	sourcesOutsideScope,
+	streamMessage,
+	updateChatThread
+} from '$lib/api/chat';
+import { ApiRequestError } from '$lib/api/client';
+import { jsonResponse } from './fixtures';
+
+const answer = {
+	message_id: 5,
+	content: 'Answer',
+	sources: [],
+	created_at: '2026-01-20T11:00:00Z'
+};
+
+describe('chat threads', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should list threads', async () => {
+		const thread = {
+			id: 3,
+			session_id: 1,
+			title: 'Evaluation',
+			archived: false,
+			created_at: '2026-01-20T10:00:00Z',
+			updated_at: '2026-01-20T10:00:00Z'
+		};
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, { threads: [thread] }));
+
+		expect(await getChatThreads(1)).toEqual([thread]);
+		expect(fetchMock.mock.calls[0][0]).toContain('/api/v1/sessions/1/chat/threads');
+	});
+
+	it('should report missing thread support as null', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }));
+
+		expect(await getChatThreads(1)).toBeNull();
+	});
+
+	it('should read and clear a thread history', async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(200, { session_id: 1, messages: [] }))
+			.mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' });
+
+		await getChatHistory(1, undefined, { threadId: 3 });
+		await clearChatHistory(1, { threadId: 3 });
+
+		const [getCall, deleteCall] = fetchMock.mock.calls;
+		expect(getCall[0]).toContain('/api/v1/sessions/1/chat/threads/3/history');
+		expect(deleteCall[0]).toContain('/api/v1/sessions/1/chat/threads/3/history');
+		expect(deleteCall[1].method).toBe('DELETE');
+	});
+
+	it('should use the session history without a thread', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, { session_id: 1, messages: [] }));
+
+		await getChatHistory(1, undefined, { threadId: null });
+
+		expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/v1\/sessions\/1\/chat\/history$/);
+	});
+
+	it('should send the thread with the message', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, answer));
+
+		await sendMessage(1, 'Question', undefined, { threadId: 3 });
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+			message: 'Question',
+			thread_id: 3
+		});
+	});
+
+	it('should keep the thread when streaming falls back', async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }))
+			.mockResolvedValueOnce(jsonResponse(200, answer));
+		const onToken = vi.fn();
+
+		await streamMessage(1, 'Question', onToken, undefined, { threadId: 3 });
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+			message: 'Question',
+			thread_id: 3
+		});
+		expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+			message: 'Question',
+			thread_id: 3
+		});
+		expect(onToken).toHaveBeenCalledWith('Answer');
+	});
+
+	it('should archive a thread', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, { id: 3, archived: true }));
+
+		await updateChatThread(1, 3, { archived: true });
+
+		expect(fetchMock.mock.calls[0][0]).toContain('/api/v1/sessions/1/chat/threads/3');
+		expect(fetchMock.mock.calls[0][1].method).toBe('PATCH');
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ archived: true });
+	});
+});
+
+describe('streamMessage errors', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should reject a failed stream with an ApiRequestError', async () => {
+		fetchMock.mockResolvedValueOnce(
+			jsonResponse(422, {
+				detail: [{ loc: ['body', 'message'], msg: 'Field required', type: 'missing' }]
+			})
+		);
+
+		const error = await streamMessage(1, '', vi.fn()).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ApiRequestError);
+		expect((error as ApiRequestError).status).toBe(422);
+		expect((error as ApiRequestError).message).not.toContain('[object Object]');
+		expect((error as ApiRequestError).fieldErrors.length).toBeGreaterThan(0);
+	});
+});
+
+describe('chat branches', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should send where an edited question branches off', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, answer));
+
+		await sendMessage(1, 'Question', undefined, { parentId: null });
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+			message: 'Question',
+			parent_id: null
+		});
+	});
+
+	it('should send the question to answer again', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, answer));
+
+		await sendMessage(1, 'Question', undefined, { threadId: 3, regenerateId: 4 });
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+			message: 'Question',
+			thread_id: 3,
+			regenerate_message_id: 4
+		});
+	});
+
+	it('should read the stored question id when reported', () => {
+		expect(getUserMessageId({ ...answer, user_message_id: 4 } as typeof answer)).toBe(4);
+		expect(getUserMessageId(answer)).toBeNull();
+	});
+});
+
+describe('chat scope', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should send the articles a question is limited to', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, answer));
+
+		await sendMessage(1, 'Question', undefined, { articleIds: [2, 7] });
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+			message: 'Question',
+			article_ids: [2, 7]
+		});
+	});
+
+	it('should leave out an empty scope', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, answer));
+
+		await sendMessage(1, 'Question', undefined, { articleIds: [] });
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ message: 'Question' });
+	});
+
+	it('should read the stored scope of a question', () => {
+		const question = { id: 1, role: 'user' as const, content: 'Q', created_at: '' };
+
+		expect(getMessageScope({ ...question, article_ids: [2, 7] } as typeof question)).toEqual([
+			2, 7
+		]);
+		expect(getMessageScope({ ...question, article_ids: [] } as typeof question)).toBeNull();
+		expect(getMessageScope(question)).toBeNull();
+	});
+
+	it('should notice sources from outside the scope', () => {
+		const source = { citation_index: 1, article_id: 3 };
+
+		expect(sourcesOutsideScope([source], [2])).toBe(true);
+		expect(sourcesOutsideScope([source], [2, 3])).toBe(false);
+		expect(sourcesOutsideScope([source], [])).toBe(false);
+		expect(sourcesOutsideScope(null, [2])).toBe(false);
+	});
+});
+
+describe('chat settings', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should send the settings chosen for a question', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, answer));
+
+		await sendMessage(1, 'Question', undefined, {
+			settings: { search_mode: 'dense', top_k: 5, llm_provider: 'openai', temperature: 0.2 }
+		});
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+			message: 'Question',
+			search_mode: 'dense',
+			top_k: 5,
+			llm_provider: 'openai',
+			temperature: 0.2
+		});
+	});
+
+	it('should read the stored settings of an answer', () => {
+		const message = { id: 1, role: 'assistant' as const, content: 'A', created_at: '' };
+		const stored = { search_mode: 'sparse', top_k: 3, temperature: 'hot', unknown: 1 };
+
+		expect(getMessageSettings({ ...message, settings: stored } as typeof message)).toEqual({
+			search_mode: 'sparse',
+			top_k: 3
+		});
+		expect(getMessageSettings({ ...message, settings: {} } as typeof message)).toBeNull();
+		expect(getMessageSettings(message)).toBeNull();
+	});
+
+	it('should report settings the answer shows were not applied', () => {
+		const response = {
+			...answer,
+			llm_provider: 'anthropic',
+			llm_model: 'model-a',
+			retrieval_metadata: { chunks_retrieved: 10, chunks_cited: 2, search_mode: 'hybrid' }
+		};
+
+		expect(
+			ignoredSettings(
+				{ search_mode: 'dense', top_k: 5, llm_provider: 'openai', llm_model: 'model-b' },
+				response
+			)
+		).toEqual(['search mode', 'number of chunks', 'LLM provider', 'model']);
+		expect(
+			ignoredSettings({ search_mode: 'hybrid', top_k: 10, llm_provider: 'anthropic' }, response)
+		).toEqual([]);
+		expect(ignoredSettings({ search_mode: 'dense' }, answer)).toEqual([]);
+	});
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import {
+	articlesToMarkdown,
+	BUNDLE_MANIFEST,
+	createExportDocument,
+	createSessionBundle,
+	exportFileName,
+	parseExportDocument,
+	readExportFile,
+	sessionToMarkdown,
+	uniqueSessionName
+} from '$lib/utils/export';
+import type { SessionExportEntry } from '$lib/api/admin';
+import type { SessionResponse } from '$lib/api/types';
+import { article } from './fixtures';
+
+describe('articlesToMarkdown', () => {
+	it('should write one section per article with its source', () => {
+		const markdown = articlesToMarkdown(
+			[
+				{ article: article(1, { title: 'Article 1' }), content: 'First body' },
+				{
+					article: article(2, {
+						title: 'Article 2',
+						type: 'file',
+						original_url: null,
+						original_filename: 'b.pdf'
+					}),
+					content: null
+				}
+			],
+			'ML Papers'
+		);
+
+		expect(markdown).toBe(
+			'# ML Papers\n\n' +
+				'## Article 1\n\nSource: <https://example.com/1>\n\nFirst body\n' +
+				'\n---\n\n' +
+				'## Article 2\n\nFile: b.pdf\n\n_No extracted content._\n'
+		);
+	});
+});
+
+describe('exportFileName', () => {
+	it('should slug the title and add the date', () => {
+		const date = new Date('2026-01-20T10:00:00Z');
+
+		expect(exportFileName('ML Papers: 2026 / Q1', 'md', date)).toBe(
+			'ml-papers-2026-q1-2026-01-20.md'
+		);
+		expect(exportFileName('!!!', 'json', date)).toBe('export-2026-01-20.json');
+	});
+});
+
+function exportEntry(): SessionExportEntry {
+	const session: SessionResponse = {
+		id: 3,
+		name: 'ML Papers',
+		description: 'Reading list',
+		status: 'active',
+		article_count: 2,
+		created_at: '2026-01-20T10:00:00Z',
+		updated_at: '2026-01-20T10:00:00Z'
+	};
+	return {
+		session,
+		articles: [
+			{ article: article(1, { title: 'Attention [2017]' }), content: 'Transformers' },
+			{
+				article: article(2, {
+					title: 'Article 2',
+					type: 'file',
+					original_url: null,
+					original_filename: 'bert.pdf'
+				}),
+				content: null
+			}
+		],
+		messages: [
+			{ id: 1, role: 'user', content: 'What is attention?', created_at: '2026-01-20T11:00:00Z' },
+			{
+				id: 2,
+				role: 'assistant',
+				content: 'A weighting mechanism [1][2].',
+				created_at: '2026-01-20T11:00:05Z',
+				sources: [
+					{ citation_index: 2, article_id: 2 },
+					{ citation_index: 1, article_id: 1, title: null, url: null },
+					{ citation_index: 1, article_id: 1 }
+				]
+			}
+		]
+	};
+}
+
+describe('sessionToMarkdown', () => {
+	it('should list articles and resolve citations to titles and URLs', () => {
+		const markdown = sessionToMarkdown(exportEntry(), new Date('2026-01-21T00:00:00Z'));
+
+		expect(markdown).toContain('# ML Papers\n\nReading list\n');
+		expect(markdown).toContain('- Exported: 2026-01-21T00:00:00.000Z');
+		expect(markdown).toContain('1. [Attention \\[2017\\]](https://example.com/1)');
+		expect(markdown).toContain('2. Article 2 (file: bert.pdf)');
+		expect(markdown).toContain(
+			'### Assistant\n\nA weighting mechanism [^1-1][^1-2].\n\n' +
+				'[^1-1]: [Attention \\[2017\\]](https://example.com/1)\n\n[^1-2]: Article 2\n'
+		);
+	});
+
+	it('should only write the newest alternative of edited questions', () => {
+		const entry = exportEntry();
+		entry.messages = [
+			...entry.messages,
+			{ id: 3, role: 'user', content: 'Old follow-up', created_at: '2026-01-20T11:01:00Z' },
+			{ id: 4, role: 'assistant', content: 'Old answer', created_at: '2026-01-20T11:01:05Z' },
+			{
+				id: 5,
+				role: 'user',
+				content: 'Edited follow-up',
+				created_at: '2026-01-20T11:02:00Z',
+				parent_id: 2
+			} as SessionExportEntry['messages'][number],
+			{
+				id: 6,
+				role: 'assistant',
+				content: 'New answer',
+				created_at: '2026-01-20T11:02:05Z',
+				parent_id: 5
+			} as SessionExportEntry['messages'][number]
+		];
+
+		const markdown = sessionToMarkdown(entry);
+
+		expect(markdown).toContain('What is attention?');
+		expect(markdown).toContain('Edited follow-up');
+		expect(markdown).toContain('New answer');
+		expect(markdown).not.toContain('Old follow-up');
+		expect(markdown).not.toContain('Old answer');
+	});
+
+	it('should write each thread under its own heading', () => {
+		const entry = exportEntry();
+		entry.threads = [
+			{
+				thread: {
+					id: 7,
+					session_id: 3,
+					title: 'Evaluation',
+					archived: true,
+					created_at: '2026-01-20T10:00:00Z',
+					updated_at: '2026-01-20T10:00:00Z'
+				},
+				messages: entry.messages
+			}
+		];
+
+		const markdown = sessionToMarkdown(entry);
+
+		expect(markdown).toContain('## Chat Transcript: General\n');
+		expect(markdown).toContain('## Chat Transcript: Evaluation (archived)\n');
+		// Footnote labels stay unique across conversations
+		expect(markdown).toContain('[^1-1]: [Attention');
+		expect(markdown).toContain('[^t7-1-1]: [Attention');
+	});
+
+	it('should note an empty chat', () => {
+		const entry = { ...exportEntry(), messages: [] };
+
+		expect(sessionToMarkdown(entry)).toContain('## Chat Transcript\n\n_No chat messages._');
+	});
+});
+
+describe('createSessionBundle', () => {
+	it('should hold the JSON document, notes and one file per article', () => {
+		const document = createExportDocument([exportEntry()], new Date('2026-01-21T00:00:00Z'));
+		const zip = createSessionBundle(document);
+		const text = new TextDecoder().decode(zip);
+
+		expect(document).toMatchObject({ format: 'article-mind-session', version: 1 });
+		expect(text).toContain(BUNDLE_MANIFEST);
+		expect(text).toContain('3-ml-papers/notes.md');
+		expect(text).toContain('3-ml-papers/articles/1-attention-2017.md');
+		expect(text).toContain('3-ml-papers/articles/2-article-2.md');
+	});
+});
+
+describe('readExportFile', () => {
+	const document = createExportDocument([exportEntry()], new Date('2026-01-21T00:00:00Z'));
+
+	it('should read a JSON export', async () => {
+		const file = new File([JSON.stringify(document)], 'ml-papers.json');
+
+		expect(await readExportFile(file)).toEqual(document);
+	});
+
+	it('should read the manifest from a bundle', async () => {
+		const file = new File([createSessionBundle(document)], 'ml-papers.zip');
+
+		expect(await readExportFile(file)).toEqual(document);
+	});
+
+	it('should reject other JSON', async () => {
+		const file = new File(['{"sessions":[]}'], 'other.json');
+
+		await expect(readExportFile(file)).rejects.toThrow('not an Article Mind session export');
+	});
+
+	it('should reject files that are not JSON', async () => {
+		await expect(readExportFile(new File(['# Notes'], 'notes.md'))).rejects.toThrow(
+			'could not be read as JSON'
+		);
+	});
+});
+
+describe('parseExportDocument', () => {
+	it('should reject exports from a newer version', () => {
+		expect(() =>
+			parseExportDocument({ format: 'article-mind-session', version: 99, sessions: [] })
+		).toThrow('newer version');
+	});
+
+	it('should reject sessions without articles', () => {
+		const value = {
+			format: 'article-mind-session',
+			version: 1,
+			sessions: [{ session: { name: 'A' }, messages: [] }]
+		};
+
+		expect(() => parseExportDocument(value)).toThrow('incomplete or damaged');
+	});
+});
+
+describe('uniqueSessionName', () => {
+	it('should keep a free name', () => {
+		expect(uniqueSessionName('ML Papers', ['Other'])).toBe('ML Papers');
+	});
+
+	it('should number a taken name, ignoring case', () => {
+		expect(uniqueSessionName('ML Papers', ['ml papers', 'ML Papers (2)'])).toBe('ML Papers (3)');
+	});
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mergeArticles, watchExtraction } from '$lib/api/extraction';
+import type { ArticleResponse, ExtractionStatus } from '$lib/api/types';
+import { article } from './fixtures';
+
+function withStatus(id: number, extraction_status: ExtractionStatus): ArticleResponse {
+	return article(id, { extraction_status, has_content: extraction_status === 'completed' });
+}
+
+function listResponse(items: ArticleResponse[]) {
+	return { ok: true, status: 200, json: async () => ({ items, total: items.length }) };
+}
+
+function eventStream(events: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const event of events) {
+				controller.enqueue(encoder.encode(event));
+			}
+			// Left open like a live stream; the watcher closes it when done
+		}
+	});
+}
+
+describe('watchExtraction', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('should do nothing when no article is pending', async () => {
+		const onUpdate = vi.fn();
+
+		await watchExtraction(1, [withStatus(1, 'completed')], onUpdate);
+
+		expect(fetchMock).not.toHaveBeenCalled();
+		expect(onUpdate).not.toHaveBeenCalled();
+	});
+
+	it('should report streamed updates and stop once everything settled', async () => {
+		fetchMock.mockResolvedValueOnce(
+			new Response(
+				eventStream([
+					`event: article\ndata: ${JSON.stringify(withStatus(1, 'processing'))}\n\n`,
+					`event: article\ndata: ${JSON.stringify(withStatus(1, 'completed'))}\n\n`
+				]),
+				{ status: 200 }
+			)
+		);
+		const updates: ExtractionStatus[][] = [];
+
+		await watchExtraction(1, [withStatus(1, 'pending'), withStatus(2, 'failed')], (changed) =>
+			updates.push(changed.map((a) => a.extraction_status))
+		);
+
+		expect(updates).toEqual([['processing'], ['completed']]);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock).toHaveBeenCalledWith(
+			expect.stringContaining('/api/v1/sessions/1/articles/events'),
+			expect.anything()
+		);
+	});
+
+	it('should poll when the service has no stream, reporting only changes', async () => {
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 404 }))
+			.mockResolvedValueOnce(listResponse([withStatus(1, 'pending')]))
+			.mockResolvedValueOnce(listResponse([withStatus(1, 'processing')]))
+			.mockResolvedValueOnce(listResponse([withStatus(1, 'completed')]));
+		const updates: ExtractionStatus[][] = [];
+
+		await watchExtraction(
+			1,
+			[withStatus(1, 'pending')],
+			(changed) => updates.push(changed.map((a) => a.extraction_status)),
+			{ initialDelayMs: 1, maxDelayMs: 5 }
+		);
+
+		expect(updates).toEqual([['processing'], ['completed']]);
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+	});
+
+	it('should poll when the stream sends malformed data', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		fetchMock
+			.mockResolvedValueOnce(
+				new Response(eventStream(['event: article\ndata: {not json\n\n']), { status: 200 })
+			)
+			.mockResolvedValueOnce(listResponse([withStatus(1, 'completed')]));
+		const onUpdate = vi.fn();
+
+		await watchExtraction(1, [withStatus(1, 'pending')], onUpdate, { initialDelayMs: 1 });
+
+		expect(onUpdate).toHaveBeenCalledWith([withStatus(1, 'completed')]);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should poll when the stream fails to connect', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		fetchMock
+			.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+			.mockResolvedValueOnce(listResponse([withStatus(1, 'completed')]));
+		const onUpdate = vi.fn();
+
+		await watchExtraction(1, [withStatus(1, 'pending')], onUpdate, { initialDelayMs: 1 });
+
+		expect(onUpdate).toHaveBeenCalledWith([withStatus(1, 'completed')]);
+	});
+
+	it('should only report articles it was asked to watch', async () => {
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 404 }))
+			.mockResolvedValueOnce(listResponse([withStatus(1, 'completed'), withStatus(3, 'pending')]));
+		const onUpdate = vi.fn();
+
+		await watchExtraction(1, [withStatus(1, 'pending')], onUpdate, { initialDelayMs: 1 });
+
+		expect(onUpdate).toHaveBeenCalledTimes(1);
+		expect(onUpdate).toHaveBeenCalledWith([withStatus(1, 'completed')]);
+	});
+
+	it('should back off while nothing changes', async () => {
+		vi.useFakeTimers();
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 404 }))
+			.mockResolvedValue(listResponse([withStatus(1, 'pending')]));
+		const controller = new AbortController();
+
+		const watching = watchExtraction(1, [withStatus(1, 'pending')], () => {}, {
+			signal: controller.signal,
+			initialDelayMs: 1000,
+			maxDelayMs: 2000
+		});
+
+		// Polls at 1000, then +1500, then +2000 (capped)
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(1499);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+
+		controller.abort();
+		await expect(watching).resolves.toBeUndefined();
+	});
+});
+
+describe('mergeArticles', () => {
+	it('should replace changed articles without re-adding removed ones', () => {
+		const merged = mergeArticles(
+			[withStatus(1, 'pending'), withStatus(2, 'pending')],
+			[withStatus(2, 'completed'), withStatus(3, 'completed')]
+		);
+
+		expect(merged.map((a) => [a.id, a.extraction_status])).toEqual([
+			[1, 'pending'],
+			[2, 'completed']
+		]);
+	});
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getMessageFeedback, submitMessageFeedback } from '$lib/api/chat';
+import { approvalRate, getFeedbackReport } from '$lib/api/admin';
+import { jsonResponse } from './fixtures';
+
+const summary = { answers: 4, up: 3, down: 1, reasons: {}, irrelevant_sources: 0 };
+
+describe('answer feedback', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should post feedback for an answer', async () => {
+		const feedback = {
+			rating: 'down' as const,
+			reasons: ['wrong_source' as const],
+			irrelevant_sources: [2]
+		};
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, feedback));
+
+		await submitMessageFeedback(1, 9, feedback);
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toContain('/api/v1/sessions/1/chat/messages/9/feedback');
+		expect(init.method).toBe('POST');
+		expect(JSON.parse(init.body)).toEqual(feedback);
+	});
+
+	it('should read stored feedback and drop unknown values', () => {
+		const message = { id: 9, role: 'assistant' as const, content: 'A', created_at: '' };
+		const stored = {
+			rating: 'down',
+			reasons: ['incomplete', 'rude'],
+			irrelevant_sources: [1, 'x']
+		};
+
+		expect(getMessageFeedback({ ...message, feedback: stored } as typeof message)).toEqual({
+			rating: 'down',
+			reasons: ['incomplete'],
+			irrelevant_sources: [1]
+		});
+		expect(getMessageFeedback({ ...message, feedback: {} } as typeof message)).toEqual({
+			rating: null,
+			reasons: [],
+			irrelevant_sources: []
+		});
+		expect(getMessageFeedback(message)).toBeNull();
+	});
+});
+
+describe('feedback report', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should load the report for a period', async () => {
+		const report = { total: summary, sessions: [], providers: [] };
+		fetchMock.mockResolvedValueOnce(jsonResponse(200, report));
+
+		expect(await getFeedbackReport('2026-01-01T00:00:00.000Z')).toEqual(report);
+		expect(fetchMock.mock.calls[0][0]).toContain(
+			'/api/v1/admin/feedback/report?since=2026-01-01T00%3A00%3A00.000Z'
+		);
+	});
+
+	it('should report missing feedback support as null', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(404, { detail: 'Not Found' }));
+
+		expect(await getFeedbackReport()).toBeNull();
+		expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/v1\/admin\/feedback\/report$/);
+	});
+
+	it('should compute the approval rate of rated answers', () => {
+		expect(approvalRate(summary)).toBe(75);
+		expect(approvalRate({ ...summary, up: 0, down: 0 })).toBeNull();
+	});
+});
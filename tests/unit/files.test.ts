@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { fileFromText, getExtension, partitionFiles, type SelectedFile } from '$lib/utils/files';
+
+function selected(name: string, size = 10, type = ''): SelectedFile {
+	return { file: new File(['x'.repeat(size)], name, { type }), path: `folder/${name}` };
+}
+
+describe('getExtension', () => {
+	it('should return the lower-cased extension with the dot', () => {
+		expect(getExtension('Paper.PDF')).toBe('.pdf');
+		expect(getExtension('archive.tar.gz')).toBe('.gz');
+	});
+
+	it('should return an empty string for names without an extension', () => {
+		expect(getExtension('README')).toBe('');
+		expect(getExtension('.gitignore')).toBe('');
+	});
+});
+
+describe('partitionFiles', () => {
+	it('should accept supported files by extension or MIME type', () => {
+		const { accepted, rejected } = partitionFiles([
+			selected('paper.pdf'),
+			selected('notes.md'),
+			selected('page', 10, 'text/html')
+		]);
+
+		expect(accepted.map((s) => s.file.name)).toEqual(['paper.pdf', 'notes.md', 'page']);
+		expect(rejected).toEqual([]);
+	});
+
+	it('should reject unsupported and empty files with a reason', () => {
+		const huge = selected('huge.pdf');
+		Object.defineProperty(huge.file, 'size', { value: 200 * 1024 * 1024 });
+
+		const { accepted, rejected } = partitionFiles([
+			selected('image.png'),
+			selected('empty.txt', 0),
+			huge,
+			selected('ok.txt')
+		]);
+
+		// Size limits are the service's to enforce
+		expect(accepted.map((s) => s.path)).toEqual(['folder/huge.pdf', 'folder/ok.txt']);
+		expect(rejected).toEqual([
+			{ path: 'folder/image.png', reason: 'Unsupported file type (.png)' },
+			{ path: 'folder/empty.txt', reason: 'File is empty' }
+		]);
+	});
+});
+
+describe('fileFromText', () => {
+	it('should name the file after the title', async () => {
+		const file = fileFromText('Body text', 'Paywalled: "An Article"');
+
+		expect(file.name).toBe('Paywalled- -An Article-.txt');
+		expect(file.type).toBe('text/plain');
+		expect(await file.text()).toBe('Body text');
+	});
+
+	it('should fall back to a default name without a title', () => {
+		expect(fileFromText('Body text', '  ').name).toBe('pasted-text.txt');
+	});
+});
@@ -0,0 +1,37 @@
+/**
+ * Shared builders for unit tests
+ */
+
+import type { ArticleResponse } from '$lib/api/types';
+
+/**
+ * Minimal stand-in for a fetch Response with a JSON body
+ */
+export function jsonResponse(status: number, body: unknown) {
+	return {
+		ok: status >= 200 && status < 300,
+		status,
+		statusText: '',
+		text: async () => JSON.stringify(body),
+		json: async () => body
+	};
+}
+
+/**
+ * A completed URL article; later IDs were added on later days
+ */
+export function article(id: number, overrides: Partial<ArticleResponse> = {}): ArticleResponse {
+	return {
+		id,
+		session_id: 1,
+		type: 'url',
+		original_url: `https://example.com/${id}`,
+		original_filename: null,
+		title: null,
+		extraction_status: 'completed',
+		has_content: true,
+		created_at: `2026-01-${String(10 + id).padStart(2, '0')}T10:00:00Z`,
+		updated_at: '2026-01-20T10:00:00Z',
+		...overrides
+	};
+}
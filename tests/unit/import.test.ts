@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { importSessionData, type SessionExportEntry } from '$lib/api/admin';
+import type { ArticleResponse, SessionResponse } from '$lib/api/types';
+import { article, jsonResponse } from './fixtures';
+
+const session: SessionResponse = {
+	id: 5,
+	name: 'Imported',
+	description: null,
+	status: 'draft',
+	article_count: 0,
+	created_at: '2026-01-20T10:00:00Z',
+	updated_at: '2026-01-20T10:00:00Z'
+};
+
+const urlArticle = article(1, {
+	session_id: 3,
+	original_url: 'https://example.com/attention',
+	title: 'Attention'
+});
+
+function entry(articles: ArticleResponse[]): SessionExportEntry {
+	return {
+		session: { ...session, id: 3 },
+		articles: articles.map((article) => ({ article, content: 'Extracted text' })),
+		messages: []
+	};
+}
+
+describe('importSessionData', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should re-add URL articles by URL', async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(201, session))
+			.mockResolvedValueOnce(jsonResponse(201, { ...urlArticle, id: 9, session_id: 5 }));
+
+		const result = await importSessionData(entry([urlArticle]), 'Imported');
+
+		expect(result).toEqual({ session, imported: 1, failures: [] });
+		const [url, init] = fetchMock.mock.calls[1];
+		expect(url).toContain('/api/v1/sessions/5/articles/url');
+		expect(JSON.parse(init.body)).toEqual({ url: 'https://example.com/attention' });
+	});
+
+	it('should pass the signal to article requests and stop when aborted', async () => {
+		const controller = new AbortController();
+		fetchMock.mockResolvedValueOnce(jsonResponse(201, session)).mockImplementationOnce(() => {
+			controller.abort();
+			return Promise.reject(new DOMException('Aborted', 'AbortError'));
+		});
+
+		await expect(
+			importSessionData(entry([urlArticle, { ...urlArticle, id: 2 }]), 'Imported', undefined, {
+				signal: controller.signal
+			})
+		).rejects.toThrow('Aborted');
+
+		// The request's signal follows ours; the second article isn't attempted
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(fetchMock.mock.calls[1][1].signal.aborted).toBe(true);
+	});
+});
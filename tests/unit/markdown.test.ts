@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { render } from 'svelte/server';
+import { parseInline, parseMarkdown, safeHref, type Block } from '$lib/utils/markdown';
+import { highlightCode } from '$lib/utils/highlight';
+import MarkdownContent from '$lib/components/MarkdownContent.svelte';
+
+function html(content: string): string {
+	return render(MarkdownContent, { props: { content } }).body;
+}
+
+describe('parseMarkdown', () => {
+	it('should parse headings, paragraphs and rules', () => {
+		expect(parseMarkdown('## Summary\nFirst line\nsecond line\n\n---')).toEqual([
+			{ type: 'heading', level: 2, children: [{ type: 'text', text: 'Summary' }] },
+			{
+				type: 'paragraph',
+				children: [
+					{ type: 'text', text: 'First line' },
+					{ type: 'break' },
+					{ type: 'text', text: 'second line' }
+				]
+			},
+			{ type: 'rule' }
+		]);
+	});
+
+	it('should parse nested lists', () => {
+		const [list] = parseMarkdown('1. First\n   - a\n   - b\n2. Second') as [
+			Extract<Block, { type: 'list' }>
+		];
+
+		expect(list).toMatchObject({ type: 'list', ordered: true, start: 1 });
+		expect(list.items).toHaveLength(2);
+		expect(list.items[0][1]).toMatchObject({ type: 'list', ordered: false });
+		expect((list.items[0][1] as Extract<Block, { type: 'list' }>).items).toHaveLength(2);
+	});
+
+	it('should keep fenced code verbatim, even when unclosed', () => {
+		expect(parseMarkdown('```ts\nconst a = `[1]` * 2;\n```')).toEqual([
+			{ type: 'code', language: 'ts', text: 'const a = `[1]` * 2;' }
+		]);
+		expect(parseMarkdown('```\npartial')).toEqual([
+			{ type: 'code', language: '', text: 'partial' }
+		]);
+	});
+
+	it('should parse tables with alignment', () => {
+		const [table] = parseMarkdown('| Model | Score |\n|:--|--:|\n| BERT [1] | 0.9 |');
+
+		expect(table).toMatchObject({ type: 'table', align: ['left', 'right'] });
+		expect((table as Extract<Block, { type: 'table' }>).rows[0][0]).toEqual([
+			{ type: 'text', text: 'BERT ' },
+			{ type: 'citation', index: 1, text: '[1]' }
+		]);
+	});
+
+	it('should keep citations inside headings, lists and quotes', () => {
+		const blocks = parseMarkdown('# Title [1]\n\n- item [2]\n\n> quote [3]');
+		const citations = JSON.stringify(blocks).match(/"type":"citation"/g);
+
+		expect(citations).toHaveLength(3);
+	});
+});
+
+describe('parseInline', () => {
+	it('should parse emphasis, code and links', () => {
+		expect(parseInline('**bold** _em_ ~~gone~~ `x*y` [site](https://a.example)')).toEqual([
+			{ type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+			{ type: 'text', text: ' ' },
+			{ type: 'em', children: [{ type: 'text', text: 'em' }] },
+			{ type: 'text', text: ' ' },
+			{ type: 'del', children: [{ type: 'text', text: 'gone' }] },
+			{ type: 'text', text: ' ' },
+			{ type: 'code', text: 'x*y' },
+			{ type: 'text', text: ' ' },
+			{ type: 'link', href: 'https://a.example', children: [{ type: 'text', text: 'site' }] }
+		]);
+	});
+
+	it('should leave snake_case and lone asterisks alone', () => {
+		expect(parseInline('use snake_case_name and 2 * 3')).toEqual([
+			{ type: 'text', text: 'use snake_case_name and 2 * 3' }
+		]);
+	});
+
+	it('should link bare URLs without trailing punctuation', () => {
+		expect(parseInline('See https://example.com/a.')).toEqual([
+			{ type: 'text', text: 'See ' },
+			{
+				type: 'link',
+				href: 'https://example.com/a',
+				children: [{ type: 'text', text: 'https://example.com/a' }]
+			},
+			{ type: 'text', text: '.' }
+		]);
+	});
+});
+
+describe('safeHref', () => {
+	it('should allow web and mail links only', () => {
+		expect(safeHref('https://example.com')).toBe('https://example.com');
+		expect(safeHref('mailto:a@example.com')).toBe('mailto:a@example.com');
+		expect(safeHref('javascript:alert(1)')).toBeNull();
+		expect(safeHref(' JavaScript:alert(1)')).toBeNull();
+		expect(safeHref('data:text/html,<script>alert(1)</script>')).toBeNull();
+		expect(safeHref('/relative')).toBeNull();
+	});
+});
+
+describe('MarkdownContent XSS handling', () => {
+	const payloads = [
+		'<script>alert(1)</script>',
+		'<img src=x onerror=alert(1)>',
+		'<a href="javascript:alert(1)">click</a>',
+		'<iframe src="https://evil.example"></iframe>',
+		'<svg onload=alert(1)>',
+		'**<b onmouseover=alert(1)>bold</b>**',
+		'| <script>x</script> | y |\n|---|---|\n| <img src=x onerror=alert(1)> | z |',
+		'```html\n<script>alert(1)</script>\n```',
+		'`<img src=x onerror=alert(1)>`'
+	];
+
+	for (const payload of payloads) {
+		it(`should render ${JSON.stringify(payload)} as text`, () => {
+			const output = html(payload);
+
+			// Tags only ever appear escaped, as text
+			expect(output).not.toMatch(/<(script|img|iframe|svg|b|a)[\s>]/i);
+			expect(output).toContain('&lt;');
+		});
+	}
+
+	it('should drop unsafe link targets but keep the label', () => {
+		const output = html(
+			'[click](javascript:alert(1)) [data](data:text/html;base64,PHNjcmlwdD4=) [ok](https://example.com)'
+		);
+
+		expect(output).not.toContain('javascript:');
+		expect(output).not.toContain('data:text');
+		expect(output).toContain('click');
+		expect(output).toContain('href="https://example.com"');
+	});
+
+	it('should escape attribute breakouts in link targets', () => {
+		const output = html('[x](https://example.com/"onmouseover="alert(1))');
+
+		expect(output).not.toMatch(/"\s*onmouseover=/);
+	});
+
+	it('should render citation markers as buttons', () => {
+		expect(html('- Claim [2]')).toMatch(
+			/<span class="citation[^"]*"[^>]*role="button"[^>]*>\s*\[2\]/
+		);
+	});
+});
+
+describe('highlightCode', () => {
+	it('should tokenize keywords, strings, numbers and comments', () => {
+		expect(highlightCode('const x = "a"; // note\nreturn 42', 'ts')).toEqual([
+			{ text: 'const', kind: 'keyword' },
+			{ text: ' x = ', kind: 'plain' },
+			{ text: '"a"', kind: 'string' },
+			{ text: '; ', kind: 'plain' },
+			{ text: '// note', kind: 'comment' },
+			{ text: '\n', kind: 'plain' },
+			{ text: 'return', kind: 'keyword' },
+			{ text: ' ', kind: 'plain' },
+			{ text: '42', kind: 'number' }
+		]);
+	});
+
+	it('should not treat a hash inside a string as a comment', () => {
+		expect(highlightCode('print("#1")', 'python')).toEqual([
+			{ text: 'print(', kind: 'plain' },
+			{ text: '"#1"', kind: 'string' },
+			{ text: ')', kind: 'plain' }
+		]);
+	});
+
+	it('should leave unknown languages as plain text', () => {
+		expect(highlightCode('a := b', 'unknown')).toEqual([{ text: 'a := b', kind: 'plain' }]);
+	});
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { parseStepNumber } from '$lib/utils/numbers';
+
+describe('parseStepNumber', () => {
+	it('should round to the precision of a decimal step', () => {
+		expect(parseStepNumber('0.3', 0, 2, 0.1)).toBe(0.3);
+		expect(parseStepNumber('0.7', 0, 2, 0.1)).toBe(0.7);
+		expect(parseStepNumber('0.26', 0, 2, 0.1)).toBe(0.3);
+	});
+
+	it('should snap to whole steps', () => {
+		expect(parseStepNumber('4.6', 1, 50, 1)).toBe(5);
+	});
+
+	it('should keep the value within its range', () => {
+		expect(parseStepNumber('80', 1, 50, 1)).toBe(50);
+		expect(parseStepNumber('-1', 0, 2, 0.1)).toBe(0);
+	});
+
+	it('should treat empty and invalid input as unset', () => {
+		expect(parseStepNumber(' ', 0, 2, 0.1)).toBe('');
+		expect(parseStepNumber('warm', 0, 2, 0.1)).toBe('');
+	});
+});
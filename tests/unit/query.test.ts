@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { filtersToQuery, DEFAULT_ARTICLE_FILTERS } from '$lib/utils/articleFilters';
+import { withQueryParams } from '$lib/utils/query';
+
+describe('withQueryParams', () => {
+	it('should change only the given parameters', () => {
+		expect(
+			withQueryParams('http://localhost/sessions/1?q=bert&thread=3#chat', {
+				thread: '4',
+				extra: null
+			})
+		).toBe('/sessions/1?q=bert&thread=4#chat');
+	});
+
+	it('should remove parameters set to null', () => {
+		expect(withQueryParams('http://localhost/sessions/1?thread=3', { thread: null })).toBe(
+			'/sessions/1'
+		);
+	});
+
+	it('should keep article filters and the thread when both are written', () => {
+		const filters = { ...DEFAULT_ARTICLE_FILTERS, query: 'bert', status: 'failed' as const };
+
+		// Each writer starts from the URL the other one left behind
+		const withThread = withQueryParams('http://localhost/sessions/1', { thread: '3' });
+		const withFilters = withQueryParams(`http://localhost${withThread}`, filtersToQuery(filters));
+		const threadCleared = withQueryParams(`http://localhost${withFilters}`, { thread: null });
+
+		expect(withFilters).toBe('/sessions/1?thread=3&q=bert&status=failed');
+		expect(threadCleared).toBe('/sessions/1?q=bert&status=failed');
+	});
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { ApiRequestError } from '$lib/api/client';
+import type { TaskStatus } from '$lib/api/admin';
+import type { ProgressEvent } from '$lib/api/sse';
+import {
+	applyReindexProgress,
+	applyReindexStatus,
+	reindexCancelFailed,
+	reindexConnectionLost,
+	reindexStartFailed,
+	reindexStarted,
+	reindexStarting
+} from '$lib/utils/reindex';
+
+function progressEvent(overrides: Partial<ProgressEvent> = {}): ProgressEvent {
+	return {
+		task_id: 't1',
+		task_type: 'reindex',
+		status: 'running',
+		total_items: 4,
+		processed_items: 1,
+		failed_items: 0,
+		current_item: null,
+		message: null,
+		errors: [],
+		...overrides
+	};
+}
+
+function taskStatus(overrides: Partial<TaskStatus> = {}): TaskStatus {
+	return {
+		task_id: 't1',
+		task_type: 'reindex',
+		status: 'running',
+		total_items: 4,
+		processed_items: 2,
+		failed_items: 0,
+		progress_percent: 50,
+		message: null,
+		errors: [],
+		...overrides
+	};
+}
+
+function apiError(status: number): ApiRequestError {
+	return new ApiRequestError({ message: `HTTP ${status}`, status, path: '/api/v1/admin/reindex' });
+}
+
+const running = reindexStarted(reindexStarting(), 4);
+
+describe('starting a reindex', () => {
+	it('should show the task as running with its article count', () => {
+		expect(running).toMatchObject({
+			status: 'running',
+			totalArticles: 4,
+			message: 'Reindexing 4 articles...'
+		});
+	});
+
+	it('should report a failure to start', () => {
+		expect(reindexStartFailed(reindexStarting(), new Error('Already running'))).toMatchObject({
+			status: 'error',
+			error: 'Already running',
+			message: null
+		});
+	});
+});
+
+describe('applyReindexProgress', () => {
+	it('should track progress while running', () => {
+		const view = applyReindexProgress(running, progressEvent({ processed_items: 1 }));
+
+		expect(view).toMatchObject({
+			status: 'running',
+			progress: 25,
+			processedArticles: 1,
+			message: 'Processed 1 of 4 articles'
+		});
+	});
+
+	it('should finish with a summary including failures', () => {
+		const errors = [{ item_id: '3', error: 'Embedding failed' }];
+		const view = applyReindexProgress(
+			running,
+			progressEvent({ status: 'completed', processed_items: 4, failed_items: 1, errors })
+		);
+
+		expect(view).toMatchObject({
+			status: 'success',
+			progress: 100,
+			message: 'Completed! 4 articles reindexed. (1 failed)',
+			errors
+		});
+	});
+
+	it('should end in an error when the task is cancelled', () => {
+		expect(applyReindexProgress(running, progressEvent({ status: 'cancelled' }))).toMatchObject({
+			status: 'error',
+			error: 'Reindex was cancelled'
+		});
+	});
+});
+
+describe('after losing the progress stream', () => {
+	it('should use the final task status', () => {
+		const view = applyReindexStatus(
+			running,
+			taskStatus({ status: 'completed', processed_items: 4, progress_percent: 100 })
+		);
+
+		expect(view).toMatchObject({ status: 'success', progress: 100, processedArticles: 4 });
+	});
+
+	it('should say when the task is still running on the server', () => {
+		expect(applyReindexStatus(running, taskStatus())).toMatchObject({
+			status: 'error',
+			progress: 50,
+			error: 'Connection lost. The reindex is still running on the server.'
+		});
+	});
+
+	it('should tell an expired task from an unreachable server', () => {
+		expect(reindexConnectionLost(running, apiError(410)).error).toBe(
+			'Connection lost and the reindex task has expired on the server.'
+		);
+		expect(reindexConnectionLost(running, new TypeError('Failed to fetch')).error).toBe(
+			'Connection lost. The reindex may still be running on the server.'
+		);
+	});
+});
+
+describe('reindexCancelFailed', () => {
+	it('should keep following a task that finished before the cancel', () => {
+		expect(reindexCancelFailed(running, apiError(409))).toMatchObject({
+			status: 'running',
+			message: 'Reindex already finished.'
+		});
+	});
+
+	it('should end a task that has expired', () => {
+		expect(reindexCancelFailed(running, apiError(404))).toMatchObject({
+			status: 'error',
+			error: 'The reindex task has expired on the server.'
+		});
+	});
+
+	it('should show other errors without ending the task', () => {
+		expect(reindexCancelFailed(running, apiError(500))).toMatchObject({
+			status: 'running',
+			error: 'HTTP 500'
+		});
+	});
+});
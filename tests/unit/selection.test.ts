@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { toggleSelection } from '$lib/utils/selection';
+
+describe('toggleSelection', () => {
+	const ids = [10, 20, 30, 40, 50];
+
+	it('should toggle a single item', () => {
+		const selected = new Set<number>();
+
+		toggleSelection(selected, ids, 20);
+		expect([...selected]).toEqual([20]);
+
+		toggleSelection(selected, ids, 20);
+		expect([...selected]).toEqual([]);
+	});
+
+	it('should select the range from the anchor in display order', () => {
+		const selected = new Set([40]);
+
+		toggleSelection(selected, ids, 20, { range: true, anchorId: 40 });
+
+		expect([...selected].sort()).toEqual([20, 30, 40]);
+	});
+
+	it('should clear a range when the clicked item was selected', () => {
+		const selected = new Set(ids);
+
+		toggleSelection(selected, ids, 20, { range: true, anchorId: 40 });
+
+		expect([...selected].sort()).toEqual([10, 50]);
+	});
+
+	it('should toggle just the item when the anchor is no longer shown', () => {
+		const selected = new Set<number>();
+
+		toggleSelection(selected, ids, 30, { range: true, anchorId: 99 });
+
+		expect([...selected]).toEqual([30]);
+	});
+});
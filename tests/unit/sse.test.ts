@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readEventStream, type ServerSentEvent } from '$lib/api/sse';
+import { streamMessage, CHAT_TIMEOUT_MS } from '$lib/api/chat';
+import { ApiTimeoutError } from '$lib/api/client';
+
+/**
+ * Build a mock response body that emits the given chunks in order
+ */
+function mockStream(chunks: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(chunk));
+			}
+			controller.close();
+		}
+	});
+}
+
+async function collect(chunks: string[]): Promise<ServerSentEvent[]> {
+	const events: ServerSentEvent[] = [];
+	await readEventStream(mockStream(chunks), (e) => events.push(e));
+	return events;
+}
+
+describe('readEventStream', () => {
+	it('should parse named events with JSON data', async () => {
+		const events = await collect(['event: progress\ndata: {"processed_items":1}\n\n']);
+
+		expect(events).toEqual([{ event: 'progress', data: '{"processed_items":1}', id: null }]);
+	});
+
+	it('should default the event name to message', async () => {
+		const events = await collect(['data: hello\n\n']);
+
+		expect(events[0].event).toBe('message');
+	});
+
+	it('should reassemble events split across chunks', async () => {
+		const events = await collect(['event: tok', 'en\ndata: {"content":', '"Hi"}\n', '\n']);
+
+		expect(events).toEqual([{ event: 'token', data: '{"content":"Hi"}', id: null }]);
+	});
+
+	it('should join multi-line data with newlines', async () => {
+		const events = await collect(['data: line one\ndata: line two\n\n']);
+
+		expect(events[0].data).toBe('line one\nline two');
+	});
+
+	it('should accept CRLF and CR line endings', async () => {
+		const events = await collect(['data: a\r\n\r\ndata: b\r', '\r', 'data: c\r\n\r\n']);
+
+		expect(events.map((e) => e.data)).toEqual(['a', 'b', 'c']);
+	});
+
+	it('should ignore comments and events without data', async () => {
+		const events = await collect([': keep-alive\n\nevent: ping\n\ndata: x\n\n']);
+
+		expect(events).toHaveLength(1);
+		expect(events[0].data).toBe('x');
+	});
+
+	it('should track the last event id', async () => {
+		const events = await collect(['id: 7\ndata: a\n\ndata: b\n\n']);
+
+		expect(events.map((e) => e.id)).toEqual(['7', '7']);
+	});
+
+	it('should discard a trailing event without a blank line', async () => {
+		const events = await collect(['data: complete\n\ndata: partial']);
+
+		expect(events.map((e) => e.data)).toEqual(['complete']);
+	});
+
+	it('should reject with AbortError when aborted', async () => {
+		const controller = new AbortController();
+		controller.abort();
+
+		await expect(
+			readEventStream(mockStream(['data: a\n\n']), () => {}, controller.signal)
+		).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }));
+	});
+});
+
+describe('streamMessage', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	const finalResponse = {
+		message_id: 42,
+		content: 'Hello world [1]',
+		sources: [{ citation_index: 1, article_id: 3 }],
+		created_at: '2026-01-20T10:00:00Z'
+	};
+
+	beforeEach(() => {
+		fetchMock = vi.fn();
+		// @ts-expect-error - Mocking global fetch in test environment
+		globalThis.fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('should deliver tokens in order and resolve with the final response', async () => {
+		fetchMock.mockResolvedValueOnce(
+			new Response(
+				mockStream([
+					'event: token\ndata: {"content":"Hello"}\n\n',
+					'event: token\ndata: {"content":" world [1]"}\n\n',
+					`event: complete\ndata: ${JSON.stringify(finalResponse)}\n\n`
+				]),
+				{ status: 200, headers: { 'Content-Type': 'text/event-stream' } }
+			)
+		);
+
+		const tokens: string[] = [];
+		const result = await streamMessage(1, 'Hi?', (t) => tokens.push(t));
+
+		expect(tokens).toEqual(['Hello', ' world [1]']);
+		expect(result).toEqual(finalResponse);
+		expect(fetchMock).toHaveBeenCalledWith(
+			expect.stringContaining('/api/v1/sessions/1/chat/stream'),
+			expect.objectContaining({ method: 'POST', body: JSON.stringify({ message: 'Hi?' }) })
+		);
+	});
+
+	it('should reject with the message of an error event', async () => {
+		fetchMock.mockResolvedValueOnce(
+			new Response(
+				mockStream([
+					'event: token\ndata: {"content":"Par"}\n\n',
+					'event: error\ndata: {"message":"LLM provider timed out"}\n\n'
+				]),
+				{ status: 200 }
+			)
+		);
+
+		await expect(streamMessage(1, 'Hi?', () => {})).rejects.toThrow('LLM provider timed out');
+	});
+
+	it('should reject if the stream ends without a complete event', async () => {
+		fetchMock.mockResolvedValueOnce(
+			new Response(mockStream(['event: token\ndata: {"content":"Par"}\n\n']), { status: 200 })
+		);
+
+		await expect(streamMessage(1, 'Hi?', () => {})).rejects.toThrow(
+			'Response stream ended before the answer was complete'
+		);
+	});
+
+	it('should fall back to the non-streaming endpoint when streaming is unavailable', async () => {
+		fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 })).mockResolvedValueOnce({
+			ok: true,
+			status: 200,
+			json: async () => finalResponse
+		});
+
+		const tokens: string[] = [];
+		const result = await streamMessage(1, 'Hi?', (t) => tokens.push(t));
+
+		expect(tokens).toEqual(['Hello world [1]']);
+		expect(result).toEqual(finalResponse);
+		expect(fetchMock).toHaveBeenLastCalledWith(
+			expect.stringMatching(/\/api\/v1\/sessions\/1\/chat$/),
+			expect.objectContaining({ method: 'POST' })
+		);
+	});
+
+	it('should reject with ApiTimeoutError when the stream stalls', async () => {
+		vi.useFakeTimers();
+		const encoder = new TextEncoder();
+		// Emits one token and then never sends anything else
+		const stalled = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(encoder.encode('event: token\ndata: {"content":"Par"}\n\n'));
+			}
+		});
+		fetchMock.mockResolvedValueOnce(new Response(stalled, { status: 200 }));
+
+		const tokens: string[] = [];
+		const promise = streamMessage(1, 'Hi?', (t) => tokens.push(t));
+		const assertion = expect(promise).rejects.toBeInstanceOf(ApiTimeoutError);
+
+		await vi.advanceTimersByTimeAsync(CHAT_TIMEOUT_MS);
+		await assertion;
+		expect(tokens).toEqual(['Par']);
+	});
+});
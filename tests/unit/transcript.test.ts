@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+	parseCitations,
+	resolveSources,
+	transcriptToHtml,
+	transcriptToMarkdown
+} from '$lib/utils/transcript';
+import type { ChatMessageResponse } from '$lib/api/types';
+
+const exportedAt = new Date('2026-01-21T00:00:00Z');
+
+function conversation(): ChatMessageResponse[] {
+	return [
+		{ id: 1, role: 'user', content: 'What is attention?', created_at: '2026-01-20T11:00:00Z' },
+		{
+			id: 2,
+			role: 'assistant',
+			content: 'A weighting [1] over tokens [2], see [3].',
+			created_at: '2026-01-20T11:00:05Z',
+			sources: [
+				{
+					citation_index: 2,
+					article_id: 8,
+					title: 'BERT',
+					url: null,
+					content: 'Bidirectional\n  encoders'
+				},
+				{
+					citation_index: 1,
+					article_id: 7,
+					title: 'Attention Is All You Need',
+					url: 'https://arxiv.org/abs/1706.03762',
+					content: 'Scaled dot-product attention'
+				}
+			]
+		},
+		{
+			id: 3,
+			role: 'assistant',
+			content: 'Again [1].',
+			created_at: '2026-01-20T11:01:00Z',
+			sources: [{ citation_index: 1, article_id: 7, title: 'Attention Is All You Need' }]
+		}
+	];
+}
+
+describe('parseCitations', () => {
+	it('should split text around citation markers', () => {
+		expect(parseCitations('See [1] and [12].')).toEqual([
+			{ text: 'See ', isCitation: false, citationIndex: undefined },
+			{ text: '[1]', isCitation: true, citationIndex: 1 },
+			{ text: ' and ', isCitation: false, citationIndex: undefined },
+			{ text: '[12]', isCitation: true, citationIndex: 12 },
+			{ text: '.', isCitation: false, citationIndex: undefined }
+		]);
+	});
+});
+
+describe('resolveSources', () => {
+	it('should order by citation and fall back to the article', () => {
+		const sources = resolveSources(
+			[
+				{ citation_index: 2, article_id: 4 },
+				{ citation_index: 1, article_id: 5 }
+			],
+			[
+				{
+					id: 4,
+					session_id: 1,
+					type: 'url',
+					original_url: 'https://example.com/4',
+					original_filename: null,
+					title: 'Saved title',
+					extraction_status: 'completed',
+					has_content: true,
+					created_at: '2026-01-20T10:00:00Z',
+					updated_at: '2026-01-20T10:00:00Z'
+				}
+			]
+		);
+
+		expect(sources).toEqual([
+			{ citationIndex: 1, title: 'Article #5', url: null, quote: null },
+			{ citationIndex: 2, title: 'Saved title', url: 'https://example.com/4', quote: null }
+		]);
+	});
+});
+
+describe('transcriptToMarkdown', () => {
+	it('should turn citations into footnotes with the quoted chunk', () => {
+		const markdown = transcriptToMarkdown(conversation(), { title: 'ML Papers', exportedAt });
+
+		expect(markdown).toContain('# ML Papers\n\nChat transcript exported 2026-01-21T00:00:00.000Z');
+		expect(markdown).toContain('## You\n\nWhat is attention?\n');
+		expect(markdown).toContain('A weighting [^1-1] over tokens [^1-2], see [3].');
+		expect(markdown).toContain(
+			'[^1-1]: [Attention Is All You Need](https://arxiv.org/abs/1706.03762)\n\n' +
+				'    > Scaled dot-product attention\n'
+		);
+		expect(markdown).toContain('[^1-2]: BERT\n\n    > Bidirectional encoders\n');
+		// Each answer numbers its own footnotes
+		expect(markdown).toContain('Again [^2-1].');
+	});
+
+	it('should note an empty conversation', () => {
+		expect(transcriptToMarkdown([], { title: 'Empty', exportedAt })).toContain(
+			'_No chat messages._'
+		);
+	});
+});
+
+describe('transcriptToHtml', () => {
+	it('should link citations to footnotes', () => {
+		const html = transcriptToHtml(conversation(), { title: 'ML Papers', exportedAt });
+
+		expect(html).toContain('<sup><a href="#fn-1-1">[1]</a></sup>');
+		expect(html).toContain(
+			'<li id="fn-1-1" value="1"><a href="https://arxiv.org/abs/1706.03762">' +
+				'Attention Is All You Need</a><blockquote>Scaled dot-product attention</blockquote></li>'
+		);
+		expect(html).toContain('see [3].');
+	});
+
+	it('should escape message and source text', () => {
+		const html = transcriptToHtml(
+			[
+				{
+					id: 1,
+					role: 'assistant',
+					content: '<img src=x onerror=alert(1)> [1]',
+					created_at: '2026-01-20T11:00:00Z',
+					sources: [
+						{
+							citation_index: 1,
+							article_id: 1,
+							title: '<b>Title</b>',
+							url: 'javascript:alert(1)',
+							content: '"quoted" & <tag>'
+						}
+					]
+				}
+			],
+			{ title: '<script>', exportedAt }
+		);
+
+		expect(html).not.toContain('<img');
+		expect(html).not.toContain('<script>');
+		expect(html).not.toContain('href="javascript');
+		expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+		expect(html).toContain('&lt;b&gt;Title&lt;/b&gt;');
+		expect(html).toContain('&quot;quoted&quot; &amp; &lt;tag&gt;');
+	});
+});
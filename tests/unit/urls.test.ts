@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+	classifyUrls,
+	detectFormat,
+	normalizeUrl,
+	parseBookmarksHtml,
+	parseOpml,
+	parseUrlList
+} from '$lib/utils/urls';
+
+describe('parseUrlList', () => {
+	it('should take the first URL on each line and skip other lines', () => {
+		const text = [
+			'https://example.com/a',
+			'',
+			'# reading list',
+			'  see http://example.org/b?x=1 later  ',
+			'not a url'
+		].join('\r\n');
+
+		expect(parseUrlList(text)).toEqual([
+			{ url: 'https://example.com/a', title: null },
+			{ url: 'http://example.org/b?x=1', title: null }
+		]);
+	});
+});
+
+describe('parseOpml', () => {
+	it('should read url, htmlUrl and xmlUrl outlines with titles', () => {
+		const opml = `<?xml version="1.0"?>
+<opml version="2.0">
+	<body>
+		<outline text="Reading">
+			<outline type="link" text="Attention" url="https://example.com/attention?a=1&amp;b=2"/>
+			<outline text="Blog" title="A blog" htmlUrl="https://blog.example.com/" xmlUrl="https://blog.example.com/feed"/>
+			<outline text='Feed only' xmlUrl='https://feed.example.com/rss'/>
+		</outline>
+	</body>
+</opml>`;
+
+		expect(parseOpml(opml)).toEqual([
+			{ url: 'https://example.com/attention?a=1&b=2', title: 'Attention' },
+			{ url: 'https://blog.example.com/', title: 'A blog' },
+			{ url: 'https://feed.example.com/rss', title: 'Feed only' }
+		]);
+	});
+});
+
+describe('parseBookmarksHtml', () => {
+	it('should read links and titles from a Netscape bookmarks export', () => {
+		const html = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<DL><p>
+	<DT><H3>Papers</H3>
+	<DL><p>
+		<DT><A HREF="https://example.com/paper" ADD_DATE="1700000000">Paper &amp; notes</A>
+		<DT><A HREF="https://example.com/untitled"></A>
+	</DL><p>
+</DL>`;
+
+		expect(parseBookmarksHtml(html)).toEqual([
+			{ url: 'https://example.com/paper', title: 'Paper & notes' },
+			{ url: 'https://example.com/untitled', title: null }
+		]);
+	});
+});
+
+describe('detectFormat', () => {
+	it('should detect OPML, bookmarks and plain text', () => {
+		expect(detectFormat('<?xml version="1.0"?><opml>')).toBe('opml');
+		expect(detectFormat('<outline/>', 'list.OPML')).toBe('opml');
+		expect(detectFormat('<!DOCTYPE NETSCAPE-Bookmark-file-1>')).toBe('bookmarks');
+		expect(detectFormat('https://example.com\nhttps://example.org')).toBe('text');
+	});
+});
+
+describe('normalizeUrl', () => {
+	it('should ignore host case, fragments and trailing slashes', () => {
+		expect(normalizeUrl('https://Example.com/a/#intro')).toBe('https://example.com/a');
+		expect(normalizeUrl('https://example.com/')).toBe('https://example.com');
+		expect(normalizeUrl('https://example.com/a?q=1')).toBe('https://example.com/a?q=1');
+	});
+
+	it('should reject non-http URLs', () => {
+		expect(normalizeUrl('ftp://example.com/file')).toBeNull();
+		expect(normalizeUrl('not a url')).toBeNull();
+	});
+});
+
+describe('classifyUrls', () => {
+	it('should flag duplicates of existing articles, repeats and invalid URLs', () => {
+		const candidates = classifyUrls(
+			[
+				{ url: 'https://example.com/new', title: null },
+				{ url: 'https://EXAMPLE.com/existing/', title: 'Existing' },
+				{ url: 'https://example.com/new#section', title: null },
+				{ url: 'mailto:someone@example.com', title: null }
+			],
+			['https://example.com/existing', null]
+		);
+
+		expect(candidates.map((c) => c.status)).toEqual(['new', 'duplicate', 'repeated', 'invalid']);
+	});
+});
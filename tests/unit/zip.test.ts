@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, readZip } from '$lib/utils/zip';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+	it('should match the standard check value', () => {
+		expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+	});
+});
+
+describe('createZip', () => {
+	it('should write local headers, a central directory and the end record', () => {
+		const zip = createZip([
+			{ name: 'a.txt', data: 'hello' },
+			{ name: 'dir/b.txt', data: encoder.encode('world') }
+		]);
+		const view = new DataView(zip.buffer);
+
+		// First local header, then the stored data right after the name
+		expect(view.getUint32(0, true)).toBe(0x04034b50);
+		expect(view.getUint32(14, true)).toBe(crc32(encoder.encode('hello')));
+		expect(new TextDecoder().decode(zip.slice(35, 40))).toBe('hello');
+
+		const end = zip.length - 22;
+		expect(view.getUint32(end, true)).toBe(0x06054b50);
+		expect(view.getUint16(end + 10, true)).toBe(2);
+
+		const centralOffset = view.getUint32(end + 16, true);
+		expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+		expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+	});
+});
+
+describe('readZip', () => {
+	it('should read back the entries written by createZip', async () => {
+		const zip = createZip([
+			{ name: 'notes.md', data: '# Notes' },
+			{ name: 'dir/data.json', data: '{"a":1}' }
+		]);
+
+		const entries = await readZip(zip);
+
+		expect(entries.map((entry) => entry.name)).toEqual(['notes.md', 'dir/data.json']);
+		expect(new TextDecoder().decode(entries[1].data as Uint8Array)).toBe('{"a":1}');
+	});
+
+	it('should inflate deflated entries', async () => {
+		const text = 'compressible '.repeat(50);
+		const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+		const deflated = new Uint8Array(await new Response(stream).arrayBuffer());
+
+		// Rewrite a stored archive as deflated, as other zip tools would produce
+		const stored = createZip([{ name: 'a.txt', data: deflated }]);
+		const view = new DataView(stored.buffer);
+		const end = stored.length - 22;
+		const central = view.getUint32(end + 16, true);
+		view.setUint16(8, 8, true);
+		view.setUint16(central + 10, 8, true);
+
+		const [entry] = await readZip(stored);
+
+		expect(new TextDecoder().decode(entry.data as Uint8Array)).toBe(text);
+	});
+
+	it('should reject data that is not a zip archive', async () => {
+		await expect(readZip(encoder.encode('not a zip'))).rejects.toThrow('Not a zip archive');
+	});
+});